@@ -0,0 +1,128 @@
+// Service worker of the planner (registered by PwaService).
+//
+// - Keeps the app shell and the libraries it loads from CDNs in a cache, so the planner
+//   starts without a connection. Pages and app files are fetched from the network first
+//   (falling back to the cache after NETWORK_TIMEOUT_MS), CDN files from the cache first.
+// - Shows reminder notifications (see ReminderService) and brings the planner back when
+//   one is clicked. The open tabs hand over the notifications still to come; those that come
+//   due while no tab is open are shown on the next periodic sync the browser grants.
+//
+// Bump CACHE_VERSION with every release: the changed file makes browsers install the new
+// worker, which waits until the user accepts the "update available" prompt.
+
+const CACHE_VERSION = 'planner-v2';
+const NETWORK_TIMEOUT_MS = 3000;
+
+// Where the handed-over notifications are kept, since the worker can be stopped at any time.
+const SCHEDULE_CACHE = 'planner-notifications';
+const SCHEDULE_URL = 'scheduled-notifications.json';
+const PERIODIC_SYNC_TAG = 'planner-reminders';
+// Notifications missed by more than this are no longer worth showing.
+const MISSED_NOTIFICATION_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+const APP_SHELL = ['./', 'index.html', 'index.css', 'manifest.webmanifest', 'icons/icon.svg', 'icons/icon-192.png', 'icons/icon-512.png'];
+
+// Versioned libraries and fonts; anything else cross-origin (Gemini, a sync server) is never cached.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com', 'esm.sh', 'next.esm.sh'];
+
+self.addEventListener('install', event => {
+  // One missing file must not keep the rest from being cached.
+  event.waitUntil(caches.open(CACHE_VERSION).then(cache => Promise.all(APP_SHELL.map(url => cache.add(url).catch(() => undefined)))));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key !== CACHE_VERSION && key !== SCHEDULE_CACHE).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+  if (event.data?.type === 'SCHEDULE_NOTIFICATIONS') event.waitUntil(writeSchedule(event.data.notifications));
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_VERSION);
+  const network = fetch(request).then(response => {
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  });
+  network.catch(() => undefined);
+  try {
+    return await withTimeout(network, NETWORK_TIMEOUT_MS);
+  } catch {
+    // Any route of the single-page app is served by index.html.
+    const cached = (await cache.match(request, { ignoreSearch: request.mode === 'navigate' }))
+      ?? (request.mode === 'navigate' ? await cache.match('index.html') : undefined);
+    // Without a cached copy, a slow answer still beats none.
+    return cached ?? network;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_VERSION);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque responses (status 0) from no-cors requests are fine to keep as well.
+  if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+  return response;
+}
+
+function withTimeout(promise, ms) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('timeout')), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); },
+    );
+  });
+}
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow(self.registration.scope);
+  })());
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === PERIODIC_SYNC_TAG) event.waitUntil(showMissedNotifications());
+});
+
+async function showMissedNotifications() {
+  // An open tab shows them with its own timers.
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length > 0) return;
+  const now = Date.now();
+  const scheduled = await readSchedule();
+  const missed = scheduled.filter(n => n.at <= now && now - n.at < MISSED_NOTIFICATION_MAX_AGE_MS);
+  await Promise.all(missed.map(n => self.registration.showNotification(n.title, { body: n.body, tag: n.tag, icon: 'icons/icon-192.png' })));
+  await writeSchedule(scheduled.filter(n => n.at > now));
+}
+
+async function readSchedule() {
+  const response = await (await caches.open(SCHEDULE_CACHE)).match(SCHEDULE_URL);
+  return response ? response.json() : [];
+}
+
+async function writeSchedule(notifications) {
+  const cache = await caches.open(SCHEDULE_CACHE);
+  await cache.put(SCHEDULE_URL, new Response(JSON.stringify(notifications ?? []), { headers: { 'Content-Type': 'application/json' } }));
+}
@@ -0,0 +1,127 @@
+// Reference sync server for the planner (see docs/sync-api.md). No dependencies; keeps
+// everything in one JSON file. Meant for a single user on a trusted network.
+//
+//   PORT=8787 SYNC_TOKEN=secret SYNC_DATA=server/data/sync.json node server/sync-server.mjs
+
+import { createServer } from 'node:http';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TOKEN = process.env.SYNC_TOKEN ?? '';
+const DATA_FILE = process.env.SYNC_DATA ?? 'server/data/sync.json';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/** { cursor, records: { [id]: { seq, record } } } */
+let store = await load();
+/** Writes run one after another so a slow write is never overtaken by an older state. */
+let writing = Promise.resolve();
+
+async function load() {
+  try {
+    return JSON.parse(await readFile(DATA_FILE, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return { cursor: 0, records: {} };
+    throw error;
+  }
+}
+
+function persist() {
+  const json = JSON.stringify(store);
+  writing = writing.then(async () => {
+    await mkdir(dirname(DATA_FILE), { recursive: true });
+    await writeFile(`${DATA_FILE}.tmp`, json);
+    await rename(`${DATA_FILE}.tmp`, DATA_FILE);
+  });
+  return writing;
+}
+
+function isRecord(value) {
+  return value && typeof value === 'object' && Number.isFinite(value.id) && Number.isFinite(value.updatedAt) && typeof value.deleted === 'boolean';
+}
+
+async function push(changes) {
+  const conflicts = [];
+  for (const record of changes) {
+    const stored = store.records[record.id];
+    if (stored && stored.record.updatedAt >= record.updatedAt) {
+      conflicts.push(stored.record);
+      continue;
+    }
+    const clean = record.deleted
+      ? { id: record.id, updatedAt: record.updatedAt, deleted: true }
+      : { id: record.id, updatedAt: record.updatedAt, deleted: false, todo: record.todo, location: record.location };
+    store.records[record.id] = { seq: ++store.cursor, record: clean };
+  }
+  await persist();
+  return { cursor: store.cursor, conflicts };
+}
+
+function pull(since) {
+  const tasks = Object.values(store.records)
+    .filter(entry => entry.seq > since)
+    .sort((a, b) => a.seq - b.seq)
+    .map(entry => entry.record);
+  return { cursor: store.cursor, tasks };
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Missing or wrong token' });
+  if (url.pathname !== '/tasks') return send(res, 404, { error: 'Not found' });
+
+  try {
+    if (req.method === 'GET') {
+      const since = Number(url.searchParams.get('since') ?? 0);
+      if (!Number.isFinite(since) || since < 0) return send(res, 400, { error: '`since` must be a cursor' });
+      return send(res, 200, pull(since));
+    }
+    if (req.method === 'POST') {
+      let body;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch (error) {
+        return send(res, error.status ?? 400, { error: error.status ? error.message : 'Body must be JSON' });
+      }
+      if (!Array.isArray(body?.changes) || !body.changes.every(isRecord)) {
+        return send(res, 400, { error: '`changes` must be a list of task records' });
+      }
+      return send(res, 200, await push(body.changes));
+    }
+    return send(res, 405, { error: 'Method not allowed' });
+  } catch (error) {
+    console.error(error);
+    return send(res, 500, { error: 'Internal error' });
+  }
+});
+
+server.listen(PORT, () => console.log(`Planner sync server on http://localhost:${PORT} (data in ${DATA_FILE})`));
@@ -1,24 +1,54 @@
-import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { ChangeDetectionStrategy, Component, inject, signal } from '@angular/core';
 import { SidebarComponent } from './components/sidebar/sidebar.component';
 import { WeekGridComponent } from './components/week-grid/week-grid.component';
+import { ToastComponent } from './components/toast/toast.component';
+import { RolloverDialogComponent } from './components/rollover-dialog/rollover-dialog.component';
+import { BackupImportDialogComponent } from './components/backup-import-dialog/backup-import-dialog.component';
+import { CommandPaletteComponent } from './components/command-palette/command-palette.component';
+import { SearchPanelComponent } from './components/search-panel/search-panel.component';
+import { FocusTimerComponent } from './components/focus-timer/focus-timer.component';
+import { PwaStatusComponent } from './components/pwa-status/pwa-status.component';
 import { TaskService } from './services/task.service';
 import { ThemeService } from './services/theme.service';
+import { RolloverService } from './services/rollover.service';
+import { BackupService } from './services/backup.service';
+import { WeekUrlService } from './services/week-url.service';
+import { SyncService } from './services/sync.service';
+import { ReminderService } from './services/reminder.service';
+import { KeyboardNavigationService } from './services/keyboard-navigation.service';
+import { SearchService } from './services/search.service';
 
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
   standalone: true,
-  imports: [SidebarComponent, WeekGridComponent],
+  imports: [SidebarComponent, WeekGridComponent, ToastComponent, RolloverDialogComponent, BackupImportDialogComponent, CommandPaletteComponent, SearchPanelComponent, FocusTimerComponent, PwaStatusComponent],
   host: {
     '(document:dragend)': 'onDragEnd()',
     '(document:dragleave)': 'onDragLeave($event)',
-    '(document:keydown.escape)': 'onKeydownEscape()',
+    '(document:keydown)': 'onKeydown($event)',
+    '(document:keydown.control.k)': 'onOpenPalette($event)',
+    '(document:keydown.meta.k)': 'onOpenPalette($event)',
+    '(document:keydown.control.z)': 'onUndo($event)',
+    '(document:keydown.meta.z)': 'onUndo($event)',
+    '(document:keydown.control.shift.z)': 'onRedo($event)',
+    '(document:keydown.meta.shift.z)': 'onRedo($event)',
+    '(document:keydown.control.y)': 'onRedo($event)',
   },
 })
 export class AppComponent {
   private taskService = inject(TaskService);
   private themeService = inject(ThemeService); // Inject to initialize
+  private weekUrlService = inject(WeekUrlService); // Inject to initialize
+  private syncService = inject(SyncService); // Inject to initialize
+  private reminderService = inject(ReminderService); // Inject to initialize
+  rolloverService = inject(RolloverService);
+  backupService = inject(BackupService);
+  private keyboard = inject(KeyboardNavigationService);
+  searchService = inject(SearchService);
+
+  isPaletteOpen = signal(false);
 
   onDragEnd(): void {
     // This listener is crucial to clean up state when a drag operation ends anywhere on the page.
@@ -32,10 +62,45 @@ export class AppComponent {
     }
   }
   
-  onKeydownEscape(): void {
-    // A global listener to cancel editing from anywhere in the app.
-    if (this.taskService.editingTaskId() !== null) {
+  onKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Escape' && this.taskService.editingTaskId() !== null) {
+      // A global listener to cancel editing from anywhere in the app.
       this.taskService.cancelEdit();
+      return;
+    }
+    if (this.isPaletteOpen() || this.searchService.isOpen() || this.isModalOpen() || this.isTextInput(event.target)) return;
+    if (event.key === '/') {
+      event.preventDefault();
+      this.searchService.open();
+      return;
     }
+    if (this.keyboard.handleKey(event)) event.preventDefault();
+  }
+
+  onOpenPalette(event: KeyboardEvent): void {
+    event.preventDefault();
+    this.isPaletteOpen.set(true);
+  }
+
+  onUndo(event: KeyboardEvent): void {
+    if (this.isTextInput(event.target)) return; // Leave native text undo alone
+    event.preventDefault();
+    this.taskService.undo();
+  }
+
+  onRedo(event: KeyboardEvent): void {
+    if (this.isTextInput(event.target)) return;
+    event.preventDefault();
+    this.taskService.redo();
+  }
+
+  /** Settings and other dialogs are opened by several components; they all mark themselves as modal. */
+  private isModalOpen(): boolean {
+    return document.querySelector('[aria-modal="true"]') !== null;
+  }
+
+  private isTextInput(target: EventTarget | null): boolean {
+    const element = target as HTMLElement | null;
+    return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable);
   }
 }
@@ -0,0 +1,78 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { TaskService } from '../../services/task.service';
+import { SearchService } from '../../services/search.service';
+import { Todo, taskDuration } from '../../models/todo.model';
+
+interface Quadrant {
+  label: string;
+  hint: string;
+  urgent: boolean;
+  important: boolean;
+  color: string;
+}
+
+// In the order of the classic 2×2: important on top, urgent on the left.
+// Colours are those of the categories each priority lands in by default.
+const QUADRANTS: Quadrant[] = [
+  { label: 'Do first', hint: 'Urgent & important', urgent: true, important: true, color: 'var(--color-cat-asap)' },
+  { label: 'Schedule', hint: 'Important, not urgent', urgent: false, important: true, color: 'var(--color-cat-soon)' },
+  { label: 'Delegate', hint: 'Urgent, not important', urgent: true, important: false, color: 'var(--color-cat-pending)' },
+  { label: 'Later', hint: 'Neither', urgent: false, important: false, color: 'var(--color-cat-leisure)' },
+];
+
+/**
+ * The backlog as an Eisenhower matrix. Dropping a task on a quadrant sets its urgent/important
+ * flags; tasks are dragged onto the week grid like those of the list view.
+ */
+@Component({
+  selector: 'app-backlog-matrix',
+  templateUrl: './backlog-matrix.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class BacklogMatrixComponent {
+  taskService = inject(TaskService);
+  searchService = inject(SearchService);
+
+  readonly totalDuration = taskDuration;
+
+  /** The filtered backlog split into quadrants, each with its planned minutes. */
+  quadrants = computed(() => {
+    const backlog = this.taskService.backlogPool();
+    return QUADRANTS.map(quadrant => {
+      const tasks = backlog.filter(t => t.urgent === quadrant.urgent && t.important === quadrant.important);
+      return { ...quadrant, tasks, minutes: tasks.reduce((sum, t) => sum + taskDuration(t), 0) };
+    });
+  });
+
+  onDragStart(event: DragEvent, todo: Todo): void {
+    event.dataTransfer?.setData('text/plain', ''); // Necessary for Firefox
+    this.taskService.onDragStart({ source: 'pool', todo });
+  }
+
+  onDragEnter(event: DragEvent, quadrant: Quadrant): void {
+    event.stopPropagation();
+    this.taskService.onDragEnter({ type: 'quadrant', urgent: quadrant.urgent, important: quadrant.important });
+  }
+
+  /** Handled here alone: the backlog around the matrix would otherwise take the drop as well. */
+  onDrop(event: DragEvent, quadrant: Quadrant): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.taskService.onQuadrantDrop({ urgent: quadrant.urgent, important: quadrant.important });
+  }
+
+  isDropTarget(quadrant: Quadrant): boolean {
+    const target = this.taskService.activeDropTarget();
+    return target?.type === 'quadrant' && target.urgent === quadrant.urgent && target.important === quadrant.important;
+  }
+
+  isBeingDragged(todo: Todo): boolean {
+    const dragged = this.taskService.draggedTaskInfo();
+    return dragged?.source === 'pool' && dragged.todo.id === todo.id;
+  }
+
+  formatMinutes(minutes: number): string {
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+  }
+}
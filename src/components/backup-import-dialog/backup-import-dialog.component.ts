@@ -0,0 +1,30 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { BackupService } from '../../services/backup.service';
+import { ImportChange } from '../../utils/backup';
+
+@Component({
+  selector: 'app-backup-import-dialog',
+  templateUrl: './backup-import-dialog.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+})
+export class BackupImportDialogComponent {
+  backupService = inject(BackupService);
+
+  // Long change lists are cut off; the counts above them stay exact.
+  readonly maxListed = 50;
+
+  changes(): { kind: 'added' | 'updated' | 'removed' | 'skipped'; change: ImportChange }[] {
+    const plan = this.backupService.preview();
+    if (!plan) return [];
+    return [
+      ...plan.added.map(change => ({ kind: 'added' as const, change })),
+      ...plan.updated.map(change => ({ kind: 'updated' as const, change })),
+      ...plan.removed.map(change => ({ kind: 'removed' as const, change })),
+      ...plan.skipped.map(change => ({ kind: 'skipped' as const, change })),
+    ].slice(0, this.maxListed);
+  }
+}
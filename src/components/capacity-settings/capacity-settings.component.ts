@@ -0,0 +1,59 @@
+import { ChangeDetectionStrategy, Component, inject, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TaskService } from '../../services/task.service';
+import { CapacityService } from '../../services/capacity.service';
+import { DaySchedule } from '../../models/todo.model';
+import { formatClock } from '../../utils/timeline';
+
+@Component({
+  selector: 'app-capacity-settings',
+  templateUrl: './capacity-settings.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+})
+export class CapacitySettingsComponent {
+  taskService = inject(TaskService);
+  capacityService = inject(CapacityService);
+
+  closed = output<void>();
+
+  readonly weekdayLabels = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+  readonly formatClock = formatClock;
+
+  setWeekdayHours(weekday: number, value: string): void {
+    const capacity = this.parseHours(value);
+    if (capacity !== null) this.capacityService.setWeekday(weekday, { capacity });
+  }
+
+  setWeekdayTime(weekday: number, key: 'workStart' | 'workEnd', value: string): void {
+    const minutes = this.parseTime(value);
+    if (minutes !== null) this.capacityService.setWeekday(weekday, this.withValidHours(this.capacityService.weekdays()[weekday], key, minutes));
+  }
+
+  setDateHours(date: Date, value: string): void {
+    const capacity = this.parseHours(value);
+    if (capacity !== null) this.capacityService.setOverride(date, { capacity });
+  }
+
+  hours(minutes: number): number {
+    return Math.round(minutes / 6) / 10;
+  }
+
+  // Keeps the end of the working day after its start by moving the other bound along.
+  private withValidHours(schedule: DaySchedule, key: 'workStart' | 'workEnd', minutes: number): Partial<DaySchedule> {
+    if (key === 'workStart') return { workStart: minutes, workEnd: Math.max(schedule.workEnd, minutes + 15) };
+    return { workEnd: minutes, workStart: Math.min(schedule.workStart, minutes - 15) };
+  }
+
+  private parseHours(value: string): number | null {
+    const hours = parseFloat(value);
+    return Number.isFinite(hours) && hours >= 0 && hours <= 24 ? Math.round(hours * 60) : null;
+  }
+
+  private parseTime(value: string): number | null {
+    const match = value.match(/^(\d{2}):(\d{2})$/);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+  }
+}
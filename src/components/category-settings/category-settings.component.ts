@@ -0,0 +1,50 @@
+import { ChangeDetectionStrategy, Component, inject, output, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { TaskService } from '../../services/task.service';
+import { CategoryService } from '../../services/category.service';
+import { CategoryConfig, CategoryKey } from '../../models/todo.model';
+
+@Component({
+  selector: 'app-category-settings',
+  templateUrl: './category-settings.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [FormsModule],
+})
+export class CategorySettingsComponent {
+  taskService = inject(TaskService);
+  categoryService = inject(CategoryService);
+
+  closed = output<void>();
+
+  newLabel = signal('');
+
+  readonly limitOptions = Array.from({ length: 10 }, (_, i) => i + 1);
+
+  setLabel(key: CategoryKey, value: string): void {
+    if (value.trim()) this.categoryService.update(key, { label: value.trim() });
+  }
+
+  setSlots(key: CategoryKey, value: string): void {
+    const slots = Math.round(Number(value));
+    if (slots >= 1 && slots <= 10) this.categoryService.update(key, { slots });
+  }
+
+  setLimit(key: CategoryKey, value: string): void {
+    this.categoryService.update(key, { limit: value === '' ? null : Number(value) });
+  }
+
+  add(): void {
+    this.categoryService.add(this.newLabel());
+    this.newLabel.set('');
+  }
+
+  /** The colour input only takes hex values; the built-in colours are theme variables, resolved here. */
+  hexColor(category: CategoryConfig): string {
+    const match = /^var\((--[\w-]+)\)$/.exec(category.color);
+    const color = match && typeof document !== 'undefined'
+      ? getComputedStyle(document.documentElement).getPropertyValue(match[1]).trim()
+      : category.color;
+    return /^#[0-9a-f]{6}$/i.test(color) ? color : '#888888';
+  }
+}
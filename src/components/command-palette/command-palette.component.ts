@@ -0,0 +1,140 @@
+import { ChangeDetectionStrategy, Component, ElementRef, afterNextRender, computed, inject, output, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TaskService } from '../../services/task.service';
+import { SyncService } from '../../services/sync.service';
+import { SearchService } from '../../services/search.service';
+import { CategoryService } from '../../services/category.service';
+import { CategoryKey } from '../../models/todo.model';
+import { parseQuickAdd } from '../../utils/quick-add';
+import { QuickAddPreviewComponent } from '../quick-add-preview/quick-add-preview.component';
+
+interface PaletteCommand {
+  label: string;
+  /** Shown on the right, e.g. the shortcut. */
+  hint?: string;
+  run: () => void;
+}
+
+/** Where a task typed into the palette goes: a day and category, or the backlog. */
+type AddTarget = { day: string; category: CategoryKey } | 'backlog';
+
+@Component({
+  selector: 'app-command-palette',
+  templateUrl: './command-palette.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, FormsModule, QuickAddPreviewComponent],
+})
+export class CommandPaletteComponent {
+  private taskService = inject(TaskService);
+  private syncService = inject(SyncService);
+  private searchService = inject(SearchService);
+  private categoryService = inject(CategoryService);
+
+  closed = output<void>();
+
+  private input = viewChild.required<ElementRef<HTMLInputElement>>('input');
+
+  query = signal('');
+  selectedIndex = signal(0);
+  /** Set once an "Add task to ..." command is picked; the input then takes the task text. */
+  addTarget = signal<AddTarget | null>(null);
+
+  commands = computed<PaletteCommand[]>(() => {
+    const commands: PaletteCommand[] = [
+      { label: 'Go to next week', run: () => this.taskService.navigateWeek(1) },
+      { label: 'Go to previous week', run: () => this.taskService.navigateWeek(-1) },
+      { label: 'Go to this week', run: () => this.taskService.goToToday() },
+      { label: 'Search tasks', hint: '/', run: () => this.searchService.open() },
+      { label: 'Add task to backlog', run: () => this.startAdd('backlog') },
+      ...this.taskService.visibleDays().flatMap(day =>
+        this.categoryService.taskCategories().map(category => ({
+          label: `Add task to ${day} ${category.label}`,
+          run: () => this.startAdd({ day, category: category.key }),
+        })),
+      ),
+      { label: 'Undo', hint: 'Ctrl+Z', run: () => this.taskService.undo() },
+      { label: 'Redo', hint: 'Ctrl+Shift+Z', run: () => this.taskService.redo() },
+      { label: this.taskService.dayView() === 'timeline' ? 'Show slots' : 'Show timeline', run: () => this.taskService.setDayView(this.taskService.dayView() === 'timeline' ? 'slots' : 'timeline') },
+      { label: 'Export JSON', run: () => this.taskService.exportData() },
+      { label: 'Export calendar (.ics)', run: () => this.taskService.exportCalendar() },
+      { label: 'Export to-dos (.ics)', run: () => this.taskService.exportCalendar('VTODO') },
+      { label: 'Archive completed tasks', run: () => this.taskService.archiveCompletedTasks() },
+    ];
+    if (this.syncService.settings().enabled) commands.push({ label: 'Sync now', run: () => this.syncService.syncNow() });
+    return commands;
+  });
+
+  /** Commands containing every word of the query, in any order. */
+  filtered = computed(() => {
+    const words = this.query().toLowerCase().split(/\s+/).filter(Boolean);
+    return this.commands().filter(command => words.every(word => command.label.toLowerCase().includes(word)));
+  });
+
+  parsedTask = computed(() => parseQuickAdd(this.query(), new Date(), this.categoryService.categories()));
+
+  addTargetLabel = computed(() => {
+    const target = this.addTarget();
+    if (!target) return '';
+    return target === 'backlog' ? 'the backlog' : `${target.day} ${this.categoryService.labelOf(target.category)}`;
+  });
+
+  constructor() {
+    afterNextRender(() => this.input().nativeElement.focus());
+  }
+
+  onQueryChange(value: string): void {
+    this.query.set(value);
+    this.selectedIndex.set(0);
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    // Keep the grid's keyboard navigation out of the palette.
+    event.stopPropagation();
+    switch (event.key) {
+      case 'Escape':
+        if (this.addTarget()) this.cancelAdd();
+        else this.closed.emit();
+        break;
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault();
+        const count = this.filtered().length;
+        if (count > 0) this.selectedIndex.update(i => (i + (event.key === 'ArrowDown' ? 1 : -1) + count) % count);
+        break;
+      }
+      case 'Enter':
+        event.preventDefault();
+        if (this.addTarget()) this.submitAdd();
+        else if (this.filtered()[this.selectedIndex()]) this.run(this.filtered()[this.selectedIndex()]);
+        break;
+    }
+  }
+
+  run(command: PaletteCommand): void {
+    command.run();
+    if (!this.addTarget()) this.closed.emit();
+  }
+
+  private startAdd(target: AddTarget): void {
+    this.addTarget.set(target);
+    this.query.set('');
+  }
+
+  private cancelAdd(): void {
+    this.addTarget.set(null);
+    this.query.set('');
+    this.selectedIndex.set(0);
+  }
+
+  private submitAdd(): void {
+    const target = this.addTarget();
+    if (!target || !this.parsedTask().text.trim()) return;
+    const defaults = target === 'backlog'
+      ? {}
+      : { date: this.taskService.weekDateObjects()[this.taskService.visibleDays().indexOf(target.day)], category: target.category };
+    this.taskService.addQuickTask(this.parsedTask(), defaults);
+    this.closed.emit();
+  }
+}
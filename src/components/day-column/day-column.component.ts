@@ -2,36 +2,67 @@ import { ChangeDetectionStrategy, Component, inject, input, computed, signal } f
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { TaskService } from '../../services/task.service';
-import { Todo, CategoryKey, CATEGORIES } from '../../models/todo.model';
+import { WeekOrganizerService } from '../../services/week-organizer.service';
+import { CapacityService } from '../../services/capacity.service';
+import { KeyboardNavigationService } from '../../services/keyboard-navigation.service';
+import { SearchService } from '../../services/search.service';
+import { FocusTimerService } from '../../services/focus-timer.service';
+import { CategoryService } from '../../services/category.service';
+import { Todo, CategoryKey, Reminder, WeekLocation, actualMinutes, taskDuration } from '../../models/todo.model';
+import { parseQuickAdd } from '../../utils/quick-add';
+import { REMINDER_PRESETS, describeReminder } from '../../utils/reminders';
+import { QuickAddPreviewComponent } from '../quick-add-preview/quick-add-preview.component';
+import { TaskChipsComponent } from '../task-chips/task-chips.component';
+import { TaskChecklistComponent } from '../task-checklist/task-checklist.component';
+import { HOUR_HEIGHT_REM, SNAP_MINUTES, TIMELINE_END, TIMELINE_START, TimelineBlock, formatClock, layoutTimeline, snapMinutes } from '../../utils/timeline';
 
 @Component({
   selector: 'app-day-column',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, QuickAddPreviewComponent, TaskChipsComponent, TaskChecklistComponent],
   templateUrl: './day-column.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class DayColumnComponent {
   taskService = inject(TaskService);
+  organizer = inject(WeekOrganizerService);
+  keyboard = inject(KeyboardNavigationService);
+  searchService = inject(SearchService);
+  focusTimer = inject(FocusTimerService);
+  categoryService = inject(CategoryService);
+  private capacityService = inject(CapacityService);
   
   day = input.required<string>();
   dayIndex = input.required<number>();
   
-  readonly categories = CATEGORIES;
-  
-  // Fixed slot configuration
-  readonly slotCounts: Record<CategoryKey, number> = {
-    'goal': 1,
-    'focus': 3,
-    'work': 3,
-    'leisure': 2,
-    'basics': 4
-  };
+  // Timeline configuration
+  readonly hourHeightRem = HOUR_HEIGHT_REM;
+  readonly timelineHours = Array.from({ length: (TIMELINE_END - TIMELINE_START) / 60 }, (_, i) => TIMELINE_START / 60 + i);
+  readonly formatClock = formatClock;
+  readonly taskDuration = taskDuration;
+  readonly actualMinutes = actualMinutes;
+  readonly reminderPresets = REMINDER_PRESETS;
+  readonly describeReminder = describeReminder;
+
+  // Snapped minute under the pointer while dragging over the timeline
+  timelineDropMinute = signal<number | null>(null);
+
+  dayItems = computed(() => {
+    const dayData = this.taskService.week()[this.day()];
+    return this.categoryService.keys().flatMap(category => (dayData?.[category] ?? []).map(todo => ({ todo, category })));
+  });
+  timelineBlocks = computed(() => layoutTimeline(this.dayItems()));
+  untimedItems = computed(() => this.dayItems().filter(item => item.todo.startTime == null));
+  overlapCount = computed(() => this.timelineBlocks().filter(block => block.overlaps).length);
 
   // Quick Add State
   isQuickAddOpen = signal(false);
   quickAddText = signal('');
   quickAddCategory = signal<CategoryKey>('work');
+  parsedQuickAdd = computed(() => parseQuickAdd(this.quickAddText(), new Date(), this.categoryService.categories()));
+
+  schedule = computed(() => this.taskService.daySchedules()[this.day()]);
+  isDayOff = computed(() => this.schedule()?.off ?? false);
 
   isCurrentDay = computed(() => {
     return this.taskService.weekOffset() === 0 && this.dayIndex() === this.taskService.currentDayIndex();
@@ -52,20 +83,24 @@ export class DayColumnComponent {
   });
 
   getRemainingSlotsForCategory(category: CategoryKey): number[] {
+    if (this.isDayOff()) return [];
     const dayData = this.taskService.week()[this.day()];
     if (!dayData) return [];
-    const currentCount = dayData[category].length;
-    const max = this.slotCounts[category];
+    const currentCount = (dayData[category]?.length ?? 0) + this.organizer.previewFor(this.day(), category).length;
+    const config = this.categoryService.get(category);
+    // No empty slots beyond the limit: they could not be filled.
+    const max = Math.min(config?.slots ?? 0, config?.limit ?? Infinity);
     return Array(Math.max(0, max - currentCount)).fill(0);
   }
 
   onWeekDragStart(event: DragEvent, todo: Todo, category: CategoryKey): void {
-    const weekKey = this.taskService.currentWeekKey();
+    const weekKey = this.taskService.weekKeyFor(this.day());
     event.dataTransfer?.setData('text/plain', '');
     this.taskService.onDragStart({ source: 'week', day: this.day(), category, todo, weekKey });
   }
 
   isDropTarget(category: CategoryKey): boolean {
+    if (this.isDayOff()) return false;
     const target = this.taskService.activeDropTarget();
     return target?.type === 'day' && target.day === this.day() && target.category === category;
   }
@@ -76,14 +111,100 @@ export class DayColumnComponent {
     this.taskService.onDrop(this.day(), category);
   }
 
+  blockTopRem(minutes: number): number {
+    return (Math.max(minutes, TIMELINE_START) - TIMELINE_START) / 60 * HOUR_HEIGHT_REM;
+  }
+
+  blockHeightRem(block: TimelineBlock): number {
+    const start = Math.max(block.start, TIMELINE_START);
+    return Math.max(block.end - start, SNAP_MINUTES) / 60 * HOUR_HEIGHT_REM;
+  }
+
+  onTimelineDragOver(event: DragEvent): void {
+    event.preventDefault();
+    this.timelineDropMinute.set(this.minuteAt(event));
+  }
+
+  handleTimelineDrop(event: DragEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.taskService.onTimelineDrop(this.day(), this.minuteAt(event));
+    this.timelineDropMinute.set(null);
+  }
+
+  isTimelineDropTarget(): boolean {
+    if (this.isDayOff()) return false;
+    const target = this.taskService.activeDropTarget();
+    return target?.type === 'timeline' && target.day === this.day();
+  }
+
+  toggleDayOff(): void {
+    this.capacityService.toggleDayOff(this.taskService.weekDateObjects()[this.dayIndex()]);
+  }
+
+  /** Timeline offset of the working hours, so the time outside them can be shaded. */
+  workingHoursRem(): { startRem: number; endRem: number; totalRem: number } {
+    const totalRem = this.timelineHours.length * HOUR_HEIGHT_REM;
+    const schedule = this.schedule();
+    if (!schedule || schedule.off) return { startRem: totalRem, endRem: totalRem, totalRem };
+    return {
+      startRem: this.blockTopRem(schedule.workStart),
+      endRem: Math.min(this.blockTopRem(schedule.workEnd), totalRem),
+      totalRem,
+    };
+  }
+
+  packDay(): void {
+    this.taskService.packDay(this.day());
+  }
+
+  private minuteAt(event: DragEvent): number {
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const ratio = Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1);
+    const minute = snapMinutes(TIMELINE_START + ratio * (TIMELINE_END - TIMELINE_START));
+    return Math.min(minute, TIMELINE_END - SNAP_MINUTES);
+  }
+
+  /** The reminder being edited as a value of the reminder select. */
+  reminderChoice(reminder: Reminder | null): string {
+    if (!reminder) return '';
+    return reminder.type === 'atTime' ? 'at' : `before:${reminder.minutes}`;
+  }
+
+  /** The time of an `atTime` reminder, null for any other. */
+  reminderTime(reminder: Reminder | null): number | null {
+    return reminder?.type === 'atTime' ? reminder.time : null;
+  }
+
+  setReminderChoice(choice: string): void {
+    const current = this.taskService.editingTaskReminder();
+    if (choice === '') this.taskService.editingTaskReminder.set(null);
+    else if (choice === 'at') this.taskService.editingTaskReminder.set({ type: 'atTime', time: current?.type === 'atTime' ? current.time : this.schedule()?.workStart ?? 9 * 60 });
+    else this.taskService.editingTaskReminder.set({ type: 'beforeStart', minutes: Number(choice.split(':')[1]) });
+  }
+
+  setReminderTime(value: string): void {
+    const [hours, minutes] = value.split(':').map(Number);
+    if (Number.isFinite(hours) && Number.isFinite(minutes)) this.taskService.editingTaskReminder.set({ type: 'atTime', time: hours * 60 + minutes });
+  }
+
+  locationOf(category: CategoryKey): WeekLocation {
+    return { type: 'week', weekKey: this.taskService.weekKeyFor(this.day()), day: this.day(), category };
+  }
+
+  deleteTask(todo: Todo, category: CategoryKey): void {
+    this.taskService.deleteTask(todo.id, this.locationOf(category));
+  }
+
   initQuickAdd(category: CategoryKey): void {
     this.quickAddCategory.set(category);
     this.isQuickAddOpen.set(true);
   }
 
   submitQuickAdd(): void {
-    if (this.quickAddText().trim()) {
-        this.taskService.addTodoToDay(this.day(), this.quickAddCategory(), this.quickAddText(), 30);
+    if (this.parsedQuickAdd().text.trim()) {
+        const date = this.taskService.weekDateObjects()[this.dayIndex()];
+        this.taskService.addQuickTask(this.parsedQuickAdd(), { date, category: this.quickAddCategory() });
         this.quickAddText.set('');
         this.isQuickAddOpen.set(false);
     } else {
@@ -0,0 +1,39 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { TaskService } from '../../services/task.service';
+import { EMPTY_FILTER, chipColor, isFilterActive } from '../../utils/tags';
+
+/** Filters the backlog and the grid by project and tags, with each project's planned time this week. */
+@Component({
+  selector: 'app-filter-bar',
+  templateUrl: './filter-bar.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class FilterBarComponent {
+  taskService = inject(TaskService);
+
+  readonly chipColor = chipColor;
+
+  isActive = computed(() => isFilterActive(this.taskService.taskFilter()));
+
+  /** Every project in use, with this week's minutes (0 for projects with nothing planned). */
+  projects = computed(() => {
+    const totals = new Map(this.taskService.weekProjectTotals().map(entry => [entry.project, entry]));
+    return this.taskService.allProjects().map(project => totals.get(project) ?? { project, total: 0, completed: 0 });
+  });
+
+  unassignedMinutes = computed(() => this.taskService.weekProjectTotals().find(entry => entry.project === '')?.total ?? 0);
+
+  toggleProject(project: string): void {
+    const filter = this.taskService.taskFilter();
+    this.taskService.setFilter({ ...filter, project: filter.project === project ? null : project });
+  }
+
+  clear(): void {
+    this.taskService.setFilter(EMPTY_FILTER);
+  }
+
+  hours(minutes: number): string {
+    return `${Math.round(minutes / 6) / 10}h`;
+  }
+}
@@ -0,0 +1,23 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { FocusTimerService } from '../../services/focus-timer.service';
+
+/** The running focus session, and the question whether its task is done once it runs out. */
+@Component({
+  selector: 'app-focus-timer',
+  templateUrl: './focus-timer.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class FocusTimerComponent {
+  focusTimer = inject(FocusTimerService);
+
+  clock = computed(() => {
+    const seconds = Math.ceil(this.focusTimer.remaining() / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  });
+
+  startAnotherRound(): void {
+    const finished = this.focusTimer.finished();
+    if (finished) this.focusTimer.start({ id: finished.todoId, text: finished.text });
+  }
+}
@@ -0,0 +1,101 @@
+import { ChangeDetectionStrategy, Component, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TaskService } from '../../services/task.service';
+import { RecurrenceRule, Todo } from '../../models/todo.model';
+import { describeRecurrence } from '../../utils/recurrence';
+import { mondayBasedDay, toDateKey } from '../../utils/date.utils';
+
+type RecurrenceType = 'none' | RecurrenceRule['type'];
+
+@Component({
+  selector: 'app-habit-editor',
+  templateUrl: './habit-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+})
+export class HabitEditorComponent {
+  taskService = inject(TaskService);
+
+  closed = output<void>();
+
+  readonly weekdayLabels = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+  // Form State (editingId === null means a new habit)
+  editingId = signal<number | null>(null);
+  text = signal('');
+  duration = signal<number | string>(30);
+  recurrenceType = signal<RecurrenceType>('weekdays');
+  weekdays = signal<number[]>([mondayBasedDay(new Date())]);
+  everyWeeks = signal<number | string>(2);
+  weekday = signal<number>(mondayBasedDay(new Date()));
+  dayOfMonth = signal<number | string>(1);
+
+  describe(habit: Todo): string {
+    return habit.recurrence ? describeRecurrence(habit.recurrence) : 'Manual (drag into a day)';
+  }
+
+  edit(habit: Todo): void {
+    this.editingId.set(habit.id);
+    this.text.set(habit.text);
+    this.duration.set(habit.duration);
+    const rule = habit.recurrence;
+    this.recurrenceType.set(rule?.type ?? 'none');
+    if (rule?.type === 'weekdays') this.weekdays.set([...rule.weekdays]);
+    if (rule?.type === 'everyNWeeks') {
+      this.everyWeeks.set(rule.everyWeeks);
+      this.weekday.set(rule.weekday);
+    }
+    if (rule?.type === 'monthly') this.dayOfMonth.set(rule.dayOfMonth);
+  }
+
+  toggleWeekday(day: number): void {
+    this.weekdays.update(days => days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b));
+  }
+
+  save(): void {
+    if (!this.text().trim()) return;
+    const id = this.editingId();
+    const recurrence = this.buildRule(id);
+    if (id === null) {
+      this.taskService.addHabit(this.text(), this.duration(), recurrence);
+    } else {
+      this.taskService.updateHabit(id, { text: this.text(), duration: this.duration(), recurrence });
+    }
+    this.reset();
+  }
+
+  remove(habit: Todo): void {
+    if (!confirm(`Delete the habit "${habit.text}"? Upcoming instances will be removed as well.`)) return;
+    this.taskService.deleteHabit(habit.id);
+    if (this.editingId() === habit.id) this.reset();
+  }
+
+  reset(): void {
+    this.editingId.set(null);
+    this.text.set('');
+    this.duration.set(30);
+    this.recurrenceType.set('weekdays');
+    this.weekdays.set([mondayBasedDay(new Date())]);
+  }
+
+  private buildRule(editingId: number | null): RecurrenceRule | null {
+    switch (this.recurrenceType()) {
+      case 'none':
+        return null;
+      case 'daily':
+        return { type: 'daily' };
+      case 'weekdays':
+        return { type: 'weekdays', weekdays: this.weekdays() };
+      case 'everyNWeeks': {
+        // Keep the original anchor when editing so the cadence doesn't shift.
+        const previous = this.taskService.habits().find(h => h.id === editingId)?.recurrence;
+        const startDate = previous?.type === 'everyNWeeks' ? previous.startDate : toDateKey(new Date());
+        return { type: 'everyNWeeks', everyWeeks: Math.max(1, Number(this.everyWeeks()) || 1), weekday: Number(this.weekday()), startDate };
+      }
+      case 'monthly':
+        return { type: 'monthly', dayOfMonth: Math.min(31, Math.max(1, Number(this.dayOfMonth()) || 1)) };
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TaskService } from '../../services/task.service';
+import { addDays, startOfWeek, toDateKey } from '../../utils/date.utils';
+
+@Component({
+  selector: 'app-month-view',
+  templateUrl: './month-view.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule],
+})
+export class MonthViewComponent {
+  taskService = inject(TaskService);
+
+  closed = output<void>();
+
+  /** First of the month on display; starts at the month most of the displayed week falls in. */
+  month = signal(this.firstOfMonth(addDays(this.taskService.weekDateObjects()[0], 3)));
+
+  /** Whole weeks covering the month, starting on the configured first day of the week. */
+  weeks = computed(() => {
+    const month = this.month();
+    const todayKey = toDateKey(new Date());
+    const displayed = new Set(this.taskService.weekDateObjects().map(toDateKey));
+    const weeks = [];
+    for (let start = startOfWeek(month, this.taskService.firstDayOfWeek()); start.getMonth() === month.getMonth() || start < month; start = addDays(start, 7)) {
+      weeks.push(Array.from({ length: 7 }, (_, i) => {
+        const date = addDays(start, i);
+        const dateKey = toDateKey(date);
+        return {
+          date,
+          dateKey,
+          inMonth: date.getMonth() === month.getMonth(),
+          isToday: dateKey === todayKey,
+          isDisplayed: displayed.has(dateKey),
+          ...this.taskService.getDayOverview(date),
+        };
+      }));
+    }
+    return weeks;
+  });
+
+  navigateMonth(direction: number): void {
+    const month = this.month();
+    this.month.set(new Date(month.getFullYear(), month.getMonth() + direction, 1));
+  }
+
+  openWeek(date: Date): void {
+    this.taskService.goToDate(date);
+    this.closed.emit();
+  }
+
+  hours(minutes: number): string {
+    return `${Math.round(minutes / 6) / 10}h`;
+  }
+
+  private firstOfMonth(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+}
@@ -0,0 +1,15 @@
+import { ChangeDetectionStrategy, Component, inject, signal } from '@angular/core';
+import { PwaService } from '../../services/pwa.service';
+
+/** The offline indicator and the prompt to reload into a new version. */
+@Component({
+  selector: 'app-pwa-status',
+  templateUrl: './pwa-status.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class PwaStatusComponent {
+  pwaService = inject(PwaService);
+
+  isUpdateDismissed = signal(false);
+}
@@ -0,0 +1,30 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { QuickAddResult, describeQuickAddPart } from '../../utils/quick-add';
+import { describeRecurrence } from '../../utils/recurrence';
+import { CategoryService } from '../../services/category.service';
+
+/** Shows how quick-add text was understood, below the input it was typed into. */
+@Component({
+  selector: 'app-quick-add-preview',
+  templateUrl: './quick-add-preview.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule],
+})
+export class QuickAddPreviewComponent {
+  private categoryService = inject(CategoryService);
+
+  parsed = input.required<QuickAddResult>();
+
+  chips = computed(() => {
+    const parsed = this.parsed();
+    return parsed.parts.map(part => ({
+      kind: part.kind,
+      label: part.kind === 'recurrence' && parsed.recurrence
+        ? describeRecurrence(parsed.recurrence)
+        : part.kind === 'category' && parsed.category ? this.categoryService.labelOf(parsed.category) : describeQuickAddPart(part, parsed),
+      source: part.source,
+    }));
+  });
+}
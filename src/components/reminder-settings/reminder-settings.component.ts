@@ -0,0 +1,39 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output } from '@angular/core';
+import { ReminderService } from '../../services/reminder.service';
+import { formatClock } from '../../utils/timeline';
+
+@Component({
+  selector: 'app-reminder-settings',
+  templateUrl: './reminder-settings.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class ReminderSettingsComponent {
+  reminderService = inject(ReminderService);
+
+  closed = output<void>();
+
+  readonly formatClock = formatClock;
+
+  permissionLabel = computed(() => {
+    switch (this.reminderService.permission()) {
+      case 'granted': return 'Allowed';
+      case 'denied': return 'Blocked — allow notifications for this site in the browser settings';
+      case 'default': return 'Not asked yet';
+      case 'unsupported': return 'This browser cannot show notifications';
+    }
+  });
+
+  toggleEnabled(): void {
+    this.reminderService.updateSettings({ enabled: !this.reminderService.settings().enabled });
+  }
+
+  toggleDigest(): void {
+    this.reminderService.updateSettings({ digestEnabled: !this.reminderService.settings().digestEnabled });
+  }
+
+  setDigestTime(value: string): void {
+    const [hours, minutes] = value.split(':').map(Number);
+    if (Number.isFinite(hours) && Number.isFinite(minutes)) this.reminderService.updateSettings({ digestTime: hours * 60 + minutes });
+  }
+}
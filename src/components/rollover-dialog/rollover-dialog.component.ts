@@ -0,0 +1,65 @@
+import { ChangeDetectionStrategy, Component, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TaskService } from '../../services/task.service';
+import { RolloverService } from '../../services/rollover.service';
+import { OverdueTask } from '../../models/todo.model';
+
+@Component({
+  selector: 'app-rollover-dialog',
+  templateUrl: './rollover-dialog.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule],
+})
+export class RolloverDialogComponent {
+  taskService = inject(TaskService);
+  rolloverService = inject(RolloverService);
+
+  // IDs the user has unticked; everything else is selected by default.
+  private deselectedIds = signal<Set<number>>(new Set());
+
+  selected = computed(() => this.taskService.overdueTasks().filter(item => !this.deselectedIds().has(item.todo.id)));
+  allSelected = computed(() => this.selected().length === this.taskService.overdueTasks().length);
+
+  isSelected(item: OverdueTask): boolean {
+    return !this.deselectedIds().has(item.todo.id);
+  }
+
+  toggle(item: OverdueTask): void {
+    this.deselectedIds.update(ids => {
+      const next = new Set(ids);
+      if (next.has(item.todo.id)) next.delete(item.todo.id);
+      else next.add(item.todo.id);
+      return next;
+    });
+  }
+
+  toggleAll(): void {
+    this.deselectedIds.set(this.allSelected() ? new Set(this.taskService.overdueTasks().map(item => item.todo.id)) : new Set());
+  }
+
+  describe(item: OverdueTask): string {
+    const { weekKey, day, category } = item.location;
+    return `${weekKey.replace('-', ' ')} · ${day.charAt(0)}${day.slice(1).toLowerCase()} · ${category}`;
+  }
+
+  moveToToday(): void {
+    this.taskService.rolloverTasks(this.selected(), 'today');
+    this.closeIfDone();
+  }
+
+  moveToBacklog(): void {
+    this.taskService.rolloverTasks(this.selected(), 'backlog');
+    this.closeIfDone();
+  }
+
+  drop(): void {
+    this.taskService.dropTasks(this.selected());
+    this.closeIfDone();
+  }
+
+  private closeIfDone(): void {
+    this.deselectedIds.set(new Set());
+    if (this.taskService.overdueTasks().length === 0) this.rolloverService.close();
+  }
+}
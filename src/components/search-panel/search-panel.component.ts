@@ -0,0 +1,42 @@
+import { ChangeDetectionStrategy, Component, ElementRef, afterNextRender, inject, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { SearchFilters, SearchGroup, SearchService } from '../../services/search.service';
+import { CategoryService } from '../../services/category.service';
+
+@Component({
+  selector: 'app-search-panel',
+  templateUrl: './search-panel.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+})
+export class SearchPanelComponent {
+  searchService = inject(SearchService);
+  categoryService = inject(CategoryService);
+
+  private input = viewChild.required<ElementRef<HTMLInputElement>>('input');
+
+  readonly statuses: SearchFilters['status'][] = ['all', 'open', 'done'];
+
+  constructor() {
+    afterNextRender(() => this.input().nativeElement.select());
+  }
+
+  setStatus(status: SearchFilters['status']): void {
+    this.searchService.updateFilters({ status });
+  }
+
+  setCategory(value: string): void {
+    this.searchService.updateFilters({ category: (value || null) as SearchFilters['category'] });
+  }
+
+  setDate(key: 'from' | 'to', value: string): void {
+    this.searchService.updateFilters({ [key]: value || null });
+  }
+
+  groupLabel(group: SearchGroup): string {
+    if (!group.weekKey) return 'Backlog';
+    return `Week ${Number(group.weekKey.split('-W')[1])}, ${group.weekKey.slice(0, 4)}`;
+  }
+}
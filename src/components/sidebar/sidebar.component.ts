@@ -1,38 +1,74 @@
 
-import { ChangeDetectionStrategy, Component, inject, signal, computed } from '@angular/core';
+import { ChangeDetectionStrategy, Component, inject, signal, computed, effect } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { TaskService } from '../../services/task.service';
 import { ThemeService } from '../../services/theme.service';
-import { Todo } from '../../models/todo.model';
+import { BackupService } from '../../services/backup.service';
+import { SearchService } from '../../services/search.service';
+import { FocusTimerService } from '../../services/focus-timer.service';
+import { PwaService } from '../../services/pwa.service';
+import { CategoryService } from '../../services/category.service';
+import { TaskLocation, Todo, taskDuration } from '../../models/todo.model';
+import { parseQuickAdd } from '../../utils/quick-add';
+import { HabitEditorComponent } from '../habit-editor/habit-editor.component';
+import { TrashPanelComponent } from '../trash-panel/trash-panel.component';
+import { CapacitySettingsComponent } from '../capacity-settings/capacity-settings.component';
+import { QuickAddPreviewComponent } from '../quick-add-preview/quick-add-preview.component';
+import { TaskChipsComponent } from '../task-chips/task-chips.component';
+import { TaskChecklistComponent } from '../task-checklist/task-checklist.component';
+import { SyncSettingsComponent } from '../sync-settings/sync-settings.component';
+import { ReminderSettingsComponent } from '../reminder-settings/reminder-settings.component';
+import { CategorySettingsComponent } from '../category-settings/category-settings.component';
+import { BacklogMatrixComponent } from '../backlog-matrix/backlog-matrix.component';
 
 @Component({
   selector: 'app-sidebar',
   templateUrl: './sidebar.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, HabitEditorComponent, TrashPanelComponent, CapacitySettingsComponent, SyncSettingsComponent, ReminderSettingsComponent, CategorySettingsComponent, QuickAddPreviewComponent, TaskChipsComponent, TaskChecklistComponent, BacklogMatrixComponent],
 })
 export class SidebarComponent {
   taskService = inject(TaskService);
   themeService = inject(ThemeService);
+  private backupService = inject(BackupService);
+  searchService = inject(SearchService);
+  focusTimer = inject(FocusTimerService);
+  pwaService = inject(PwaService);
+  private categoryService = inject(CategoryService);
 
   // Form State
   newTodoText = signal('');
   taskDuration = signal<number | string>(30);
+  parsedTodo = computed(() => parseQuickAdd(this.newTodoText(), new Date(), this.categoryService.categories()));
+
+  readonly poolLocation: TaskLocation = { type: 'pool' };
+  readonly totalDuration = taskDuration;
   
   // UI State
   isDataConfigOpen = signal(false);
   isThemeMenuOpen = signal(false);
   isBacklogCollapsed = signal(false);
   isChoresCollapsed = signal(true);
+  isHabitEditorOpen = signal(false);
+  isTrashOpen = signal(false);
+  isCapacityOpen = signal(false);
+  isSyncOpen = signal(false);
+  isRemindersOpen = signal(false);
+  isCategoriesOpen = signal(false);
+
+  constructor() {
+    // A search result in the backlog must be visible to be highlighted.
+    effect(() => {
+      const id = this.searchService.highlightedTaskId();
+      if (id !== null && this.taskService.backlogPool().some(t => t.id === id)) this.isBacklogCollapsed.set(false);
+    });
+  }
 
   addTodo(): void {
-    if (!this.newTodoText().trim()) return;
-    this.taskService.addTodo(
-      this.newTodoText(),
-      this.taskDuration()
-    );
+    if (!this.parsedTodo().text.trim()) return;
+    this.taskService.addQuickTask(this.parsedTodo(), { duration: Number(this.taskDuration()) || 30 });
     this.newTodoText.set('');
     this.taskDuration.set(30);
   }
@@ -55,8 +91,16 @@ export class SidebarComponent {
   handleImport(event: Event): void {
     const input = event.target as HTMLInputElement;
     if (input.files?.length) {
-      this.taskService.importData(input.files[0]);
+      this.backupService.open(input.files[0]);
       input.value = ''; // Reset file input
     }
   }
+
+  handleCalendarImport(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (input.files?.length) {
+      this.taskService.importCalendar(input.files[0]);
+      input.value = '';
+    }
+  }
 }
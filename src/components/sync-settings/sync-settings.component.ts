@@ -0,0 +1,38 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SyncService } from '../../services/sync.service';
+
+@Component({
+  selector: 'app-sync-settings',
+  templateUrl: './sync-settings.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule],
+})
+export class SyncSettingsComponent {
+  syncService = inject(SyncService);
+
+  closed = output<void>();
+
+  statusLabel = computed(() => {
+    switch (this.syncService.status()) {
+      case 'off': return 'Off';
+      case 'idle': return 'Up to date';
+      case 'syncing': return 'Syncing...';
+      case 'offline': return 'Offline — changes are kept until the connection is back';
+      case 'error': return 'Sync failed';
+    }
+  });
+
+  setEndpoint(value: string): void {
+    this.syncService.updateSettings({ endpoint: value });
+  }
+
+  setToken(value: string): void {
+    this.syncService.updateSettings({ token: value.trim() });
+  }
+
+  toggleEnabled(): void {
+    this.syncService.updateSettings({ enabled: !this.syncService.settings().enabled });
+  }
+}
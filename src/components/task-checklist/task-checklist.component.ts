@@ -0,0 +1,47 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+import { TaskService } from '../../services/task.service';
+import { Subtask, TaskLocation, Todo } from '../../models/todo.model';
+
+/**
+ * Progress of a task's subtasks, unfolding into an inline editable checklist. The card hosting
+ * it opens the checklist through TaskService.toggleChecklist, also when there are no steps yet.
+ */
+@Component({
+  selector: 'app-task-checklist',
+  templateUrl: './task-checklist.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class TaskChecklistComponent {
+  taskService = inject(TaskService);
+
+  todo = input.required<Todo>();
+  location = input.required<TaskLocation>();
+
+  subtasks = computed(() => this.todo().subtasks ?? []);
+  doneCount = computed(() => this.subtasks().filter(s => s.completed).length);
+  isOpen = computed(() => this.taskService.openChecklistId() === this.todo().id);
+
+  toggle(subtask: Subtask): void {
+    this.taskService.toggleSubtask(this.location(), this.todo().id, subtask.id);
+  }
+
+  rename(subtask: Subtask, text: string): void {
+    if (text.trim() && text.trim() !== subtask.text) this.taskService.updateSubtask(this.location(), this.todo().id, subtask.id, { text });
+  }
+
+  setDuration(subtask: Subtask, duration: string): void {
+    if (Number(duration) !== subtask.duration) this.taskService.updateSubtask(this.location(), this.todo().id, subtask.id, { duration });
+  }
+
+  remove(subtask: Subtask): void {
+    this.taskService.deleteSubtask(this.location(), this.todo().id, subtask.id);
+  }
+
+  add(textInput: HTMLInputElement, durationInput: HTMLInputElement): void {
+    if (!textInput.value.trim()) return;
+    this.taskService.addSubtask(this.location(), this.todo().id, textInput.value, durationInput.value);
+    textInput.value = '';
+    textInput.focus();
+  }
+}
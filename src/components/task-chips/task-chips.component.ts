@@ -0,0 +1,24 @@
+import { ChangeDetectionStrategy, Component, inject, input } from '@angular/core';
+import { TaskService } from '../../services/task.service';
+import { Todo } from '../../models/todo.model';
+import { chipColor } from '../../utils/tags';
+
+/** The project and tags of a task as coloured chips. Clicking one filters by it. */
+@Component({
+  selector: 'app-task-chips',
+  templateUrl: './task-chips.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class TaskChipsComponent {
+  taskService = inject(TaskService);
+
+  todo = input.required<Todo>();
+
+  readonly chipColor = chipColor;
+
+  filterByProject(project: string): void {
+    const filter = this.taskService.taskFilter();
+    this.taskService.setFilter({ ...filter, project: filter.project === project ? null : project });
+  }
+}
@@ -0,0 +1,12 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { ToastService } from '../../services/toast.service';
+
+@Component({
+  selector: 'app-toast',
+  templateUrl: './toast.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class ToastComponent {
+  toastService = inject(ToastService);
+}
@@ -0,0 +1,47 @@
+import { ChangeDetectionStrategy, Component, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TaskService } from '../../services/task.service';
+import { TrashedTodo } from '../../models/todo.model';
+
+@Component({
+  selector: 'app-trash-panel',
+  templateUrl: './trash-panel.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+})
+export class TrashPanelComponent {
+  taskService = inject(TaskService);
+
+  closed = output<void>();
+
+  readonly retentionOptions = [
+    { days: 7, label: '7 days' },
+    { days: 30, label: '30 days' },
+    { days: 90, label: '90 days' },
+    { days: 0, label: 'Never' },
+  ];
+
+  lastArchivedCount = signal<number | null>(null);
+
+  describeOrigin(item: TrashedTodo): string {
+    if (item.origin.type === 'pool') return item.todo.habit ? 'Recurring chores' : 'Backlog';
+    const { weekKey, day, category } = item.origin;
+    return `${weekKey.replace('-', ' ')} · ${day.charAt(0)}${day.slice(1).toLowerCase()} · ${category}`;
+  }
+
+  setRetention(days: number | string): void {
+    this.taskService.setTrashRetentionDays(Number(days));
+  }
+
+  emptyTrash(): void {
+    if (confirm(`Permanently delete ${this.taskService.trash().length} task(s)?`)) {
+      this.taskService.emptyTrash();
+    }
+  }
+
+  archiveCompleted(): void {
+    this.lastArchivedCount.set(this.taskService.archiveCompletedTasks());
+  }
+}
@@ -1,16 +1,53 @@
 
-import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { TaskService } from '../../services/task.service';
+import { WeekOrganizerService } from '../../services/week-organizer.service';
+import { RolloverService } from '../../services/rollover.service';
+import { SearchService } from '../../services/search.service';
+import { PwaService } from '../../services/pwa.service';
+import { CategoryService } from '../../services/category.service';
 import { DayColumnComponent } from '../day-column/day-column.component';
+import { WeeklyReviewComponent } from '../weekly-review/weekly-review.component';
+import { MonthViewComponent } from '../month-view/month-view.component';
+import { FilterBarComponent } from '../filter-bar/filter-bar.component';
+import { HOUR_HEIGHT_REM, TIMELINE_END, TIMELINE_START } from '../../utils/timeline';
+import { parseDateKey, toDateKey } from '../../utils/date.utils';
 
 @Component({
   selector: 'app-week-grid',
   templateUrl: './week-grid.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
   standalone: true,
-  imports: [CommonModule, DayColumnComponent],
+  imports: [CommonModule, DayColumnComponent, WeeklyReviewComponent, MonthViewComponent, FilterBarComponent],
 })
 export class WeekGridComponent {
   taskService = inject(TaskService);
+  organizer = inject(WeekOrganizerService);
+  rolloverService = inject(RolloverService);
+  searchService = inject(SearchService);
+  pwaService = inject(PwaService);
+  categoryService = inject(CategoryService);
+
+  isReviewOpen = signal(false);
+  isMonthOpen = signal(false);
+
+  /** The date picker shows today in the current week and the first displayed day elsewhere. */
+  selectedDateKey = computed(() => toDateKey(this.taskService.weekOffset() === 0 ? new Date() : this.taskService.weekDateObjects()[0]));
+
+  readonly hourHeightRem = HOUR_HEIGHT_REM;
+  readonly timelineHours = Array.from({ length: (TIMELINE_END - TIMELINE_START) / 60 }, (_, i) => TIMELINE_START / 60 + i);
+
+  jumpToDate(value: string): void {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) this.taskService.goToDate(parseDateKey(value));
+  }
+
+  /** Matches the height of a category in the day columns: a 3.5rem slot plus its 0.5rem gap each. */
+  legendHeightRem(slots: number): number {
+    return 2.25 + 4 * slots;
+  }
+
+  unscheduledSummary(): string {
+    return this.organizer.unscheduled().map(item => `${item.text}: ${item.detail}`).join('\n');
+  }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TaskService } from '../../services/task.service';
+import { AnalyticsService } from '../../services/analytics.service';
+import { CategoryService } from '../../services/category.service';
+
+// Shared SVG geometry (viewBox units)
+const CHART_WIDTH = 420;
+const CHART_HEIGHT = 140;
+const PLOT_TOP = 10;
+const PLOT_BOTTOM = 118;
+
+@Component({
+  selector: 'app-weekly-review',
+  templateUrl: './weekly-review.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [CommonModule],
+})
+export class WeeklyReviewComponent {
+  taskService = inject(TaskService);
+  analytics = inject(AnalyticsService);
+  categoryService = inject(CategoryService);
+
+  closed = output<void>();
+
+  readonly chartWidth = CHART_WIDTH;
+  readonly chartHeight = CHART_HEIGHT;
+  readonly plotBottom = PLOT_BOTTOM;
+  readonly trendOptions = [4, 8, 12];
+
+  /** Planned vs completed bars per day. */
+  dayBars = computed(() => {
+    const days = this.analytics.summary().days;
+    const max = Math.max(60, ...days.map(d => d.planned));
+    const groupWidth = CHART_WIDTH / days.length;
+    return days.map((d, i) => ({
+      label: d.day.slice(0, 3),
+      planned: d.planned,
+      completed: d.completed,
+      x: i * groupWidth + groupWidth / 2,
+      plannedHeight: this.scale(d.planned, max),
+      completedHeight: this.scale(d.completed, max),
+    }));
+  });
+
+  /** Horizontal planned/completed bars per category. */
+  categoryBars = computed(() => {
+    const byCategory = this.analytics.summary().byCategory;
+    const categories = this.categoryService.categories();
+    const totals = categories.map(c => byCategory[c.key] ?? { planned: 0, completed: 0 });
+    const max = Math.max(60, ...totals.map(t => t.planned));
+    // Colors are the category's own; the built-in ones are theme variables and follow theme switches.
+    return categories.map((category, i) => ({
+      category: category.key,
+      label: category.label,
+      color: category.color,
+      ...totals[i],
+      plannedWidth: (totals[i].planned / max) * 100,
+      completedWidth: (totals[i].completed / max) * 100,
+    }));
+  });
+
+  /** Grows with the number of categories, 27 units per bar. */
+  categoryChartHeight = computed(() => Math.max(CHART_HEIGHT, this.categoryBars().length * 27 + 6));
+
+  /** Estimated vs. actual minutes per day, for tasks timed with the focus timer. */
+  trackedBars = computed(() => {
+    const days = this.analytics.summary().days;
+    const max = Math.max(30, ...days.flatMap(d => [d.tracked.estimated, d.tracked.actual]));
+    return days.map(d => ({
+      label: d.day.slice(0, 3),
+      ...d.tracked,
+      estimatedWidth: (d.tracked.estimated / max) * 100,
+      actualWidth: (d.tracked.actual / max) * 100,
+    }));
+  });
+
+  /** Planned minutes as bars and completion rate as a line, one point per week. */
+  trendChart = computed(() => {
+    const trend = this.analytics.trend();
+    const max = Math.max(60, ...trend.map(w => w.planned));
+    const step = CHART_WIDTH / trend.length;
+    const points = trend.map((w, i) => ({
+      ...w,
+      label: w.weekKey.split('-W')[1],
+      x: i * step + step / 2,
+      barHeight: this.scale(w.planned, max),
+      rateY: w.completionRate === null ? null : PLOT_BOTTOM - w.completionRate * (PLOT_BOTTOM - PLOT_TOP),
+    }));
+    // Weeks without anything planned break the line instead of dropping it to zero.
+    const segments: string[] = [];
+    let current: string[] = [];
+    for (const p of points) {
+      if (p.rateY === null) {
+        if (current.length) segments.push(current.join(' '));
+        current = [];
+      } else {
+        current.push(`${p.x},${p.rateY}`);
+      }
+    }
+    if (current.length) segments.push(current.join(' '));
+    return { points, segments, barWidth: Math.min(28, step * 0.6) };
+  });
+
+  percent(rate: number | null): string {
+    return rate === null ? '–' : `${Math.round(rate * 100)}%`;
+  }
+
+  hours(minutes: number): string {
+    return `${Math.round(minutes / 6) / 10}h`;
+  }
+
+  private scale(value: number, max: number): number {
+    return (value / max) * (PLOT_BOTTOM - PLOT_TOP);
+  }
+}
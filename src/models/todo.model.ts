@@ -8,14 +8,125 @@ export interface Todo {
   duration: number;
   habit: boolean;
   sourceId?: number;
+  /** Habits only: when instances are placed automatically into new weeks. */
+  recurrence?: RecurrenceRule;
+  /** Habits only: `YYYY-MM-DD` dates whose instance was removed by hand and must not come back. */
+  recurrenceExceptions?: string[];
+  /** Habit instances only: the `YYYY-MM-DD` date this occurrence was generated for. */
+  occurrenceDate?: string;
+  /** How many times the task was carried over from a past day. */
+  postponedCount?: number;
+  /** How many times the task was taken off the grid and sent back to the backlog. */
+  returnedCount?: number;
+  /** Optional planned start, in minutes since midnight, for the day timeline. */
+  startTime?: number;
+  /** UID of the calendar event this task was imported from, kept so re-imports update it. */
+  calendarUid?: string;
+  /** Lower-case labels without the leading `#`. */
+  tags?: string[];
+  /** The project or context the task belongs to, e.g. "Website relaunch". */
+  project?: string;
+  /** Checklist steps. When there are any, their durations replace the task's own (see taskDuration). */
+  subtasks?: Subtask[];
+  /** Time actually spent on the task, recorded by the focus timer. */
+  timeLogs?: TimeLog[];
+  /** When to be notified about the task; only tasks in the week grid have a date to remind of. */
+  reminder?: Reminder;
+  /** When the task was last changed (ms since epoch); the newer copy wins when syncing. */
+  updatedAt?: number;
 }
 
-export const CATEGORIES = ['goal', 'focus', 'work', 'leisure', 'basics'] as const;
-export type CategoryKey = typeof CATEGORIES[number];
+export interface Subtask {
+  id: number;
+  text: string;
+  completed: boolean;
+  duration: number;
+}
+
+/** A focus session on a task; times are ms since epoch. */
+export interface TimeLog {
+  start: number;
+  end: number;
+}
+
+/**
+ * `beforeStart` is relative to the task's start time, or to the start of the working day when
+ * it has none. `atTime` is a fixed time of the task's day, in minutes since midnight.
+ */
+export type Reminder =
+  | { type: 'beforeStart'; minutes: number }
+  | { type: 'atTime'; time: number };
+
+/** Weekdays are indexed from Monday (0) to Sunday (6), like TaskService.daysOfWeek. */
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; weekdays: number[] }
+  | { type: 'everyNWeeks'; everyWeeks: number; weekday: number; startDate: string }
+  | { type: 'monthly'; dayOfMonth: number };
+
+/** Key of a row in the day grid. Built-in keys stay the same when their category is renamed. */
+export type CategoryKey = string;
+
+/**
+ * A row of the day grid, as configured by the user. `goal` (the day's goal) and `basics`
+ * (the chores) are built in and keep their role; all other categories only differ by these settings.
+ */
+export interface CategoryConfig {
+  key: CategoryKey;
+  label: string;
+  /** Any CSS colour; the built-in categories start with their theme colour. */
+  color: string;
+  /** Empty slots shown in a day column, and how many tasks the organizer puts into a day. */
+  slots: number;
+  /** The most tasks a day can hold in the category, or null for no limit. */
+  limit: number | null;
+  /** Flags given to a task moved into the category, and matched to place a task without one. */
+  urgent: boolean;
+  important: boolean;
+}
+
+export const BUILT_IN_CATEGORY_KEYS: readonly CategoryKey[] = ['goal', 'focus', 'work', 'leisure', 'basics'];
+
+export const DEFAULT_CATEGORIES: readonly CategoryConfig[] = [
+  { key: 'goal', label: 'Goal', color: 'var(--color-cat-asap)', slots: 1, limit: 1, urgent: true, important: true },
+  { key: 'focus', label: 'Focus', color: 'var(--color-cat-soon)', slots: 3, limit: null, urgent: false, important: true },
+  { key: 'work', label: 'Work', color: 'var(--color-cat-pending)', slots: 3, limit: null, urgent: true, important: false },
+  { key: 'leisure', label: 'Leisure', color: 'var(--color-cat-leisure)', slots: 2, limit: null, urgent: false, important: false },
+  { key: 'basics', label: 'Chores', color: 'var(--color-cat-basics)', slots: 4, limit: null, urgent: false, important: false },
+];
+
+/** How much of a day can be planned. Times are minutes since midnight. */
+export interface DaySchedule {
+  off: boolean;
+  capacity: number;
+  workStart: number;
+  workEnd: number;
+}
 
-export type DayTasks = {
-  [K in CategoryKey]: Todo[];
-};
+export const DEFAULT_DAY_SCHEDULE: DaySchedule = { off: false, capacity: 480, workStart: 9 * 60, workEnd: 17 * 60 };
+
+export type TaskPriority = 'ASAP' | 'SOON' | 'PENDING' | 'LEISURE' | 'BASICS';
+
+export function getTaskPriority(todo: Pick<Todo, 'habit' | 'urgent' | 'important'>): TaskPriority {
+  if (todo.habit) return 'BASICS'; // Basics are not scheduled by the organizer
+  if (todo.urgent && todo.important) return 'ASAP';
+  if (!todo.urgent && todo.important) return 'SOON';
+  if (todo.urgent && !todo.important) return 'PENDING';
+  return 'LEISURE';
+}
+
+/** Planned minutes of a task: the sum of its subtasks if it has any, otherwise its own duration. */
+export function taskDuration(todo: Todo): number {
+  if (todo.subtasks?.length) return todo.subtasks.reduce((sum, subtask) => sum + (subtask.duration || 0), 0);
+  return todo.duration || 0;
+}
+
+/** Minutes logged on a task with the focus timer. */
+export function actualMinutes(todo: Todo): number {
+  return Math.round((todo.timeLogs ?? []).reduce((sum, log) => sum + Math.max(0, log.end - log.start), 0) / 60000);
+}
+
+export type DayTasks = Record<CategoryKey, Todo[]>;
 
 export interface Week {
   [key: string]: DayTasks;
@@ -23,10 +134,38 @@ export interface Week {
 
 export type DropTarget =
   | { type: 'day'; day: string; category: CategoryKey }
+  | { type: 'timeline'; day: string }
   | { type: 'pool' }
+  | { type: 'quadrant'; urgent: boolean; important: boolean }
   | null;
 
 export type DraggedTaskInfo =
   | { source: 'week'; day: string; category: CategoryKey; todo: Todo; weekKey: string }
   | { source: 'pool'; todo: Todo }
-  | null;
\ No newline at end of file
+  | null;
+
+export type TaskLocation =
+  | { type: 'week'; weekKey: string; day: string; category: CategoryKey }
+  | { type: 'pool' };
+
+export type WeekLocation = Extract<TaskLocation, { type: 'week' }>;
+
+/** An incomplete task left behind on a day that has already passed. */
+export interface OverdueTask {
+  todo: Todo;
+  location: WeekLocation;
+}
+
+export interface TrashedTodo {
+  todo: Todo;
+  origin: TaskLocation;
+  deletedAt: number;
+}
+
+export interface ArchivedTodo {
+  todo: Todo;
+  weekKey: string;
+  day: string;
+  category: CategoryKey;
+  archivedAt: number;
+}
@@ -0,0 +1,29 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { TaskService } from './task.service';
+import { habitStreaks, postponedTasks, summarizeWeek, weeklyTrend } from '../utils/analytics';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class AnalyticsService {
+  private taskService = inject(TaskService);
+
+  /** How many weeks, ending with the displayed one, the trend covers. */
+  trendLength = signal(8);
+
+  summary = computed(() => summarizeWeek(this.taskService.currentWeekKey(), this.taskService.week(), this.taskService.visibleDays()));
+
+  trend = computed(() => weeklyTrend(
+    this.taskService.getWeeksEndingAt(this.taskService.weekOffset(), this.trendLength()),
+    this.taskService.daysOfWeek,
+  ));
+
+  streaks = computed(() => habitStreaks(
+    this.taskService.storedWeeks(),
+    this.taskService.habits(),
+    this.taskService.daysOfWeek,
+    new Date(),
+  ));
+
+  postponed = computed(() => postponedTasks(this.taskService.allWeeks(), this.taskService.todoPool()));
+}
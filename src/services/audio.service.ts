@@ -46,4 +46,40 @@ export class AudioService {
     playNote(659.25, t + 0.07); // E5
     playNote(783.99, t + 0.14); // G5
   }
-}
\ No newline at end of file
+
+  /** A rising two-note cue when a focus session starts. */
+  playTimerStartSound(): void {
+    this.playChime([440, 659.25], 0.12); // A4, E5
+  }
+
+  /** A falling three-note cue when a focus session runs out. */
+  playTimerEndSound(): void {
+    this.playChime([783.99, 659.25, 523.25], 0.18); // G5, E5, C5
+  }
+
+  private playChime(frequencies: number[], spacing: number): void {
+    this.initAudio();
+    if (!this.audioCtx) return;
+
+    if (this.audioCtx.state === 'suspended') {
+      this.audioCtx.resume();
+    }
+
+    const t = this.audioCtx.currentTime;
+    frequencies.forEach((freq, i) => {
+      const start = t + i * spacing;
+      const gainNode = this.audioCtx!.createGain();
+      gainNode.connect(this.audioCtx!.destination);
+      gainNode.gain.setValueAtTime(0, start);
+      gainNode.gain.linearRampToValueAtTime(0.12, start + 0.01);
+      gainNode.gain.exponentialRampToValueAtTime(0.0001, start + spacing + 0.25);
+
+      const osc = this.audioCtx!.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(freq, start);
+      osc.connect(gainNode);
+      osc.start(start);
+      osc.stop(start + spacing + 0.25);
+    });
+  }
+}
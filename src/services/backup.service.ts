@@ -0,0 +1,67 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { TaskService } from './task.service';
+import { CategoryService } from './category.service';
+import { ToastService } from './toast.service';
+import { BackupIssue, ConflictStrategy, ImportMode, PlannerBackup, parseBackup, planImport } from '../utils/backup';
+
+export interface PendingImport {
+  fileName: string;
+  backup: PlannerBackup | null;
+  issues: BackupIssue[];
+  migratedFrom: number | null;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class BackupService {
+  private taskService = inject(TaskService);
+  private categoryService = inject(CategoryService);
+  private toastService = inject(ToastService);
+
+  pending = signal<PendingImport | null>(null);
+  mode = signal<ImportMode>('merge');
+  conflicts = signal<ConflictStrategy>('imported');
+
+  /** What applying the pending file would do with the current mode and conflict strategy. */
+  preview = computed(() => {
+    const backup = this.pending()?.backup;
+    if (!backup) return null;
+    return planImport(
+      { allWeeks: this.taskService.allWeeks(), todoPool: this.taskService.todoPool() },
+      backup,
+      this.mode(),
+      this.conflicts(),
+      this.taskService.daysOfWeek,
+      this.categoryService.categories(),
+    );
+  });
+
+  /** Reads and validates a backup file, then opens the import preview. */
+  open(file: File): void {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = parseBackup(e.target?.result as string, this.taskService.daysOfWeek, this.categoryService.keys());
+      if (result.ok === true) {
+        this.pending.set({ fileName: file.name, backup: result.backup, issues: [], migratedFrom: result.migratedFrom });
+      } else {
+        this.pending.set({ fileName: file.name, backup: null, issues: result.issues, migratedFrom: null });
+      }
+    };
+    reader.onerror = () => this.toastService.show(`Could not read ${file.name}`);
+    reader.readAsText(file);
+  }
+
+  apply(): void {
+    const plan = this.preview();
+    if (!plan) return;
+    this.taskService.applyImport(plan);
+    this.close();
+    const changed = plan.added.length + plan.updated.length + plan.removed.length;
+    this.toastService.show(changed > 0 ? `Backup imported: ${changed} task${changed === 1 ? '' : 's'} changed` : 'Backup imported: nothing changed');
+  }
+
+  close(): void {
+    this.pending.set(null);
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { StorageService } from './storage.service';
+import { DaySchedule, DEFAULT_DAY_SCHEDULE } from '../models/todo.model';
+import { mondayBasedDay, toDateKey } from '../utils/date.utils';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class CapacityService {
+  private storageService = inject(StorageService);
+
+  /** Regular schedule per weekday, Monday (0) to Sunday (6). */
+  weekdays = signal<DaySchedule[]>(
+    this.storageService.get<DaySchedule[]>('planner-weekdaySchedules') ?? Array.from({ length: 7 }, () => ({ ...DEFAULT_DAY_SCHEDULE }))
+  );
+  /** Exceptions for single dates (holidays, vacation), keyed by `YYYY-MM-DD`. */
+  overrides = signal<{ [dateKey: string]: Partial<DaySchedule> }>(
+    this.storageService.get<{ [dateKey: string]: Partial<DaySchedule> }>('planner-dayOverrides') ?? {}
+  );
+
+  scheduleFor(date: Date): DaySchedule {
+    return { ...this.weekdays()[mondayBasedDay(date)], ...this.overrides()[toDateKey(date)] };
+  }
+
+  hasOverride(date: Date): boolean {
+    return toDateKey(date) in this.overrides();
+  }
+
+  setWeekday(weekday: number, changes: Partial<DaySchedule>): void {
+    this.weekdays.update(days => days.map((day, i) => i === weekday ? { ...day, ...changes } : day));
+    this.storageService.set('planner-weekdaySchedules', this.weekdays());
+  }
+
+  /** Overrides the schedule of a single date; null goes back to the regular weekday schedule. */
+  setOverride(date: Date, changes: Partial<DaySchedule> | null): void {
+    const dateKey = toDateKey(date);
+    this.overrides.update(overrides => {
+      const { [dateKey]: _, ...rest } = overrides;
+      return changes ? { ...rest, [dateKey]: { ...overrides[dateKey], ...changes } } : rest;
+    });
+    this.storageService.set('planner-dayOverrides', this.overrides());
+  }
+
+  toggleDayOff(date: Date): void {
+    const off = !this.scheduleFor(date).off;
+    // Going back to the weekday default drops the override instead of storing a no-op.
+    if (off === this.weekdays()[mondayBasedDay(date)].off && Object.keys(this.overrides()[toDateKey(date)] ?? {}).every(key => key === 'off')) {
+      this.setOverride(date, null);
+    } else {
+      this.setOverride(date, { off });
+    }
+  }
+}
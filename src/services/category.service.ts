@@ -0,0 +1,101 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { StorageService } from './storage.service';
+import { BUILT_IN_CATEGORY_KEYS, CategoryConfig, CategoryKey, DayTasks, Todo } from '../models/todo.model';
+import { CATEGORY_PALETTE, categoryForFlags, categoryWithRoom, hasRoom, migrateCategoryConfig } from '../utils/categories';
+
+/**
+ * The rows of the day grid: their names, colours, order, slots and limits. Tasks are stored under
+ * the category key, so renaming or recolouring never touches them (see utils/categories).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CategoryService {
+  private storageService = inject(StorageService);
+
+  categories = signal<CategoryConfig[]>(migrateCategoryConfig(this.storageService.get<unknown>('planner-categories')));
+
+  keys = computed(() => this.categories().map(c => c.key));
+  /** Everything but the chores: what the backlog, the organizer and quick add place tasks into. */
+  taskCategories = computed(() => this.categories().filter(c => c.key !== 'basics'));
+
+  private byKey = computed(() => new Map(this.categories().map(c => [c.key, c])));
+
+  get(key: CategoryKey): CategoryConfig | undefined {
+    return this.byKey().get(key);
+  }
+
+  labelOf(key: CategoryKey): string {
+    return this.get(key)?.label ?? key;
+  }
+
+  colorOf(key: CategoryKey): string {
+    return this.get(key)?.color ?? 'var(--color-cat-basics)';
+  }
+
+  isBuiltIn(key: CategoryKey): boolean {
+    return BUILT_IN_CATEGORY_KEYS.includes(key);
+  }
+
+  hasRoom(key: CategoryKey, tasks: readonly Todo[] | undefined, ignoreId?: number): boolean {
+    return hasRoom(this.get(key), tasks, ignoreId);
+  }
+
+  /** See categoryWithRoom in utils/categories. */
+  categoryWithRoom(dayTasks: DayTasks | undefined, key: CategoryKey, ignoreId?: number): CategoryKey | null {
+    return categoryWithRoom(this.categories(), dayTasks, key, ignoreId);
+  }
+
+  categoryFor(todo: Pick<Todo, 'urgent' | 'important' | 'habit'>): CategoryKey {
+    return categoryForFlags(this.categories(), todo);
+  }
+
+  /** Sets the urgent/important flags that match a category. */
+  applyFlags(todo: Todo, key: CategoryKey): void {
+    const category = this.get(key);
+    todo.urgent = category?.urgent ?? false;
+    todo.important = category?.important ?? false;
+  }
+
+  add(label: string): CategoryKey {
+    const key = `custom-${Date.now().toString(36)}`;
+    const color = CATEGORY_PALETTE[this.categories().filter(c => !this.isBuiltIn(c.key)).length % CATEGORY_PALETTE.length];
+    this.save([...this.categories(), { key, label: label.trim() || 'New category', color, slots: 2, limit: null, urgent: false, important: true }]);
+    return key;
+  }
+
+  /** Takes over categories found in the data but not configured here, so their tasks stay visible. */
+  adopt(keys: CategoryKey[]): void {
+    if (keys.length === 0) return;
+    this.save(migrateCategoryConfig([...this.categories(), ...keys.map(key => ({ key }))]));
+  }
+
+  update(key: CategoryKey, changes: Partial<Omit<CategoryConfig, 'key'>>): void {
+    this.save(migrateCategoryConfig(this.categories().map(c => c.key === key ? { ...c, ...changes } : c)));
+  }
+
+  move(key: CategoryKey, direction: -1 | 1): void {
+    const categories = [...this.categories()];
+    const index = categories.findIndex(c => c.key === key);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= categories.length) return;
+    [categories[index], categories[target]] = [categories[target], categories[index]];
+    this.save(categories);
+  }
+
+  /** Removes a category that was added by the user. The caller makes sure no task is left in it. */
+  remove(key: CategoryKey): void {
+    if (this.isBuiltIn(key)) return;
+    this.save(this.categories().filter(c => c.key !== key));
+  }
+
+  /** Puts back a configuration saved earlier, e.g. when a change to it is undone. */
+  restore(categories: CategoryConfig[]): void {
+    this.save(categories);
+  }
+
+  private save(categories: CategoryConfig[]): void {
+    this.categories.set(categories);
+    this.storageService.set('planner-categories', categories);
+  }
+}
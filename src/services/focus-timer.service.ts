@@ -0,0 +1,114 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { TaskService } from './task.service';
+import { StorageService } from './storage.service';
+import { AudioService } from './audio.service';
+import { Todo } from '../models/todo.model';
+
+/** A running focus session. Times are ms since epoch, so the session survives reloads. */
+export interface FocusSession {
+  todoId: number;
+  text: string;
+  startedAt: number;
+  endsAt: number;
+}
+
+/** Stopping sooner than this logs nothing; it was most likely a misclick. */
+const MIN_LOGGED_MS = 60 * 1000;
+
+/**
+ * A Pomodoro-style timer for one task at a time. Every session, finished or stopped early,
+ * is logged on the task (Todo.timeLogs) so the actual time can be compared to the estimate.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FocusTimerService {
+  private taskService = inject(TaskService);
+  private storageService = inject(StorageService);
+  private audioService = inject(AudioService);
+
+  sessionMinutes = signal<number>(this.storageService.get<number>('planner-focusMinutes') ?? 25);
+  session = signal<FocusSession | null>(this.storageService.get<FocusSession>('planner-focusSession'));
+  /** A session that ran out and still waits for an answer whether its task is done. */
+  finished = signal<FocusSession | null>(null);
+
+  private now = signal(Date.now());
+
+  remaining = computed(() => {
+    const session = this.session();
+    return session ? Math.max(0, session.endsAt - this.now()) : 0;
+  });
+  progress = computed(() => {
+    const session = this.session();
+    return session ? 1 - this.remaining() / (session.endsAt - session.startedAt) : 0;
+  });
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      setInterval(() => this.tick(), 1000);
+    }
+  }
+
+  isRunningFor(todoId: number): boolean {
+    return this.session()?.todoId === todoId;
+  }
+
+  setSessionMinutes(minutes: number): void {
+    this.sessionMinutes.set(Math.min(180, Math.max(1, Math.round(minutes) || 25)));
+    this.storageService.set('planner-focusMinutes', this.sessionMinutes());
+  }
+
+  /** Starts a session on `todo`. A session on another task is stopped and logged first. */
+  start(todo: Pick<Todo, 'id' | 'text'>): void {
+    if (this.session()) this.stop();
+    const now = Date.now();
+    this.finished.set(null);
+    this.now.set(now);
+    this.setSession({ todoId: todo.id, text: todo.text, startedAt: now, endsAt: now + this.sessionMinutes() * 60000 });
+    this.audioService.playTimerStartSound();
+  }
+
+  /** Ends the session early and logs the time spent so far. */
+  stop(): void {
+    const session = this.session();
+    if (!session) return;
+    const end = Math.min(Date.now(), session.endsAt);
+    if (end - session.startedAt >= MIN_LOGGED_MS) this.taskService.logTime(session.todoId, { start: session.startedAt, end });
+    this.setSession(null);
+  }
+
+  extend(minutes: number): void {
+    const session = this.session();
+    if (session) this.setSession({ ...session, endsAt: session.endsAt + minutes * 60000 });
+  }
+
+  completeFinishedTask(): void {
+    const finished = this.finished();
+    if (finished) this.taskService.completeTask(finished.todoId);
+    this.finished.set(null);
+  }
+
+  dismissFinished(): void {
+    this.finished.set(null);
+  }
+
+  private tick(): void {
+    const session = this.session();
+    if (!session) return;
+    this.now.set(Date.now());
+    // Also catches sessions that ran out while the page was closed, once the tasks are loaded.
+    if (this.now() >= session.endsAt && this.taskService.isLoaded()) this.finish(session);
+  }
+
+  private finish(session: FocusSession): void {
+    this.taskService.logTime(session.todoId, { start: session.startedAt, end: session.endsAt });
+    this.setSession(null);
+    this.finished.set(session);
+    this.audioService.playTimerEndSound();
+  }
+
+  private setSession(session: FocusSession | null): void {
+    this.session.set(session);
+    this.storageService.set('planner-focusSession', session);
+  }
+}
@@ -1,7 +1,10 @@
 
-import { Injectable } from '@angular/core';
-import { GoogleGenAI, Type } from '@google/genai';
-import { Todo, Week, CategoryKey } from '../models/todo.model';
+import { Injectable, InjectionToken, computed, inject } from '@angular/core';
+import { GoogleGenAI, GenerateContentParameters, Type } from '@google/genai';
+import { Todo, Week, CategoryKey, getTaskPriority, taskDuration } from '../models/todo.model';
+import { PwaService } from './pwa.service';
+import { CategoryService } from './category.service';
+import { ToastService } from './toast.service';
 
 // The execution environment is expected to provide process.env.API_KEY.
 declare let process: any;
@@ -12,34 +15,55 @@ export interface SchedulingPlanItem {
     category: CategoryKey;
 }
 
-@Injectable({
-  providedIn: 'root',
-})
-export class GeminiService {
-  private ai: GoogleGenAI | null = null;
+/**
+ * The subset of the GoogleGenAI client used by this service.
+ * Tests (or offline builds) can provide a local fake through GEMINI_CLIENT.
+ */
+export interface GeminiClient {
+  models: {
+    generateContent(params: GenerateContentParameters): Promise<{ text?: string }>;
+  };
+}
 
-  constructor() {
+export const GEMINI_CLIENT = new InjectionToken<GeminiClient | null>('GEMINI_CLIENT', {
+  providedIn: 'root',
+  factory: () => {
     try {
         if (typeof process !== 'undefined' && process.env?.API_KEY) {
-            this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        } else {
-            console.error('Gemini API key not found. Please ensure API_KEY is set in environment variables.');
+            return new GoogleGenAI({ apiKey: process.env.API_KEY });
         }
+        console.error('Gemini API key not found. Please ensure API_KEY is set in environment variables.');
     } catch (e) {
         console.error('Failed to initialize GoogleGenAI:', e);
     }
-  }
+    return null;
+  },
+});
+
+@Injectable({
+  providedIn: 'root',
+})
+export class GeminiService {
+  private ai = inject(GEMINI_CLIENT);
+  private pwaService = inject(PwaService);
+  private categoryService = inject(CategoryService);
+  private toastService = inject(ToastService);
+
+  isConfigured = this.ai !== null;
+  /** Configured and online. Callers fall back to the local scheduler otherwise. */
+  isAvailable = computed(() => this.isConfigured && this.pwaService.isOnline());
 
   async getSchedulingPlan(
     tasks: Todo[], 
     currentWeek: Week,
-    dailyLoad: Record<string, { total: number }>
+    dailyLoad: Record<string, { total: number; capacity: number }>
   ): Promise<SchedulingPlanItem[] | null> {
     if (!this.ai) {
         console.error("Gemini AI client not initialized.");
-        alert("AI Service is not configured. Please check the console for details.");
+        this.toastService.show('The AI service is not configured. Please check the console for details.', 5000);
         return null;
     }
+    if (!this.pwaService.isOnline()) return null;
 
     const prompt = this.createPrompt(tasks, dailyLoad);
     const schema = this.createResponseSchema();
@@ -55,54 +79,57 @@ export class GeminiService {
         },
       });
 
-      const jsonString = response.text.trim();
+      const jsonString = (response.text ?? '').trim();
       const organizedData = JSON.parse(jsonString) as { plan: SchedulingPlanItem[] };
       return organizedData.plan;
 
     } catch (error) {
       console.error('Error calling Gemini API:', error);
-      alert('An error occurred while organizing the week. The AI may be temporarily unavailable. Please check the console for details.');
+      // Losing the connection is not an error worth reporting; the caller plans offline instead.
+      if (this.pwaService.isOnline()) {
+        this.toastService.show('The AI could not organize the week right now. Please try again later.', 5000);
+      }
       return null;
     }
   }
 
-  private createPrompt(tasks: Todo[], dailyLoad: Record<string, { total: number }>): string {
-    const taskList = tasks.map(t => `- "${t.text}" (ID: ${t.id}, Duration: ${t.duration}m, Priority: ${this.getPriority(t)})`).join('\n');
+  private createPrompt(tasks: Todo[], dailyLoad: Record<string, { total: number; capacity: number }>): string {
+    const taskList = tasks.map(t => `- "${t.text}" (ID: ${t.id}, Duration: ${taskDuration(t)}m, Priority: ${getTaskPriority(t)})`).join('\n');
     
     // Create a concise summary of the week's current load
     const weekSummary = Object.entries(dailyLoad)
-      .map(([day, load]) => `${day}: ${load.total} minutes scheduled`)
+      .map(([day, load]) => load.capacity > 0
+        ? `${day}: ${load.total} of ${load.capacity} minutes scheduled`
+        : `${day}: day off`)
+      .join('\n');
+
+    // Chores are never organized, so the model only gets to see the other categories.
+    const categoryList = this.categoryService.taskCategories()
+      .map(c => `- '${c.key}' ("${c.label}"): for ${getTaskPriority({ ...c, habit: false })} tasks, ${c.limit === null ? 'no limit' : `AT MOST ${c.limit} task${c.limit === 1 ? '' : 's'}`} per day${c.key === 'goal' ? ', for the day\'s single most important task' : ''}`)
       .join('\n');
 
     return `
       You are an expert life planner AI. Your task is to create a scheduling plan for a list of backlog tasks to fit into a 7-day week.
 
       **Rules & Constraints:**
-      1.  **Daily Capacity:** Each day has a maximum capacity of 480 minutes (8 hours). Consider the time already scheduled.
+      1.  **Daily Capacity:** Each day has its own capacity in minutes, listed with the current load below. Consider the time already scheduled. Never schedule anything on a day off.
       2.  **Prioritization:** Schedule high-priority tasks ('ASAP', 'SOON') earlier in the week (e.g., Monday-Wednesday). Lower priority tasks should be scheduled for later.
-      3.  **Task Categories:** Tasks fit into categories: 'goal', 'focus', 'work', 'leisure'. Place tasks in their corresponding category slots.
-      4.  **'Goal' Slot:** The 'goal' category for each day should contain AT MOST ONE task. It is for the day's single most important task.
+      3.  **Task Categories:** Place each task in a category for its priority. The categories are:
+      ${categoryList}
+      4.  **Category Limits:** Never put more tasks into a category on one day than its limit allows.
       5.  **Preserve IDs:** Your output must be a plan that maps original task IDs to a day and category.
       6.  **Unscheduled Tasks:** If a task cannot be scheduled due to capacity limits, simply leave it out of the final plan.
 
       **Backlog Tasks to Schedule:**
       ${taskList}
 
-      **Current Week Load (Time already scheduled per day):**
+      **Current Week Load (Time already scheduled and capacity per day):**
       ${weekSummary}
 
       Based on these rules, return a JSON object containing a 'plan' array. Each item in the array should be an object with 'id', 'day', and 'category' to schedule a task.
     `;
   }
   
-  private getPriority(todo: Todo): string {
-    if (todo.habit) return 'BASICS'; // Basics are not scheduled by this function
-    if (todo.urgent && todo.important) return 'ASAP';
-    if (!todo.urgent && todo.important) return 'SOON';
-    if (todo.urgent && !todo.important) return 'PENDING';
-    return 'LEISURE';
-  }
-
   private createResponseSchema() {
     return {
       type: Type.OBJECT,
@@ -122,7 +149,7 @@ export class GeminiService {
               category: { 
                 type: Type.STRING, 
                 description: "The category for the task.",
-                enum: ['goal', 'focus', 'work', 'leisure']
+                enum: this.categoryService.taskCategories().map(c => c.key)
               }
             },
             required: ['id', 'day', 'category']
@@ -0,0 +1,53 @@
+import { Injectable, signal, computed } from '@angular/core';
+
+/** A recorded change that knows how to revert and re-apply itself. */
+export interface HistoryEntry {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class HistoryService {
+  private readonly limit = 100;
+
+  private undoStack = signal<HistoryEntry[]>([]);
+  private redoStack = signal<HistoryEntry[]>([]);
+
+  canUndo = computed(() => this.undoStack().length > 0);
+  canRedo = computed(() => this.redoStack().length > 0);
+  nextUndoLabel = computed(() => this.undoStack().at(-1)?.label ?? null);
+  nextRedoLabel = computed(() => this.redoStack().at(-1)?.label ?? null);
+
+  record(entry: HistoryEntry): void {
+    this.undoStack.update(stack => [...stack, entry].slice(-this.limit));
+    this.redoStack.set([]);
+  }
+
+  /** Reverts the most recent change and returns its label, or null if there is nothing to undo. */
+  undo(): string | null {
+    const entry = this.undoStack().at(-1);
+    if (!entry) return null;
+    entry.undo();
+    this.undoStack.update(stack => stack.slice(0, -1));
+    this.redoStack.update(stack => [...stack, entry]);
+    return entry.label;
+  }
+
+  /** Re-applies the most recently undone change and returns its label, or null if there is nothing to redo. */
+  redo(): string | null {
+    const entry = this.redoStack().at(-1);
+    if (!entry) return null;
+    entry.redo();
+    this.redoStack.update(stack => stack.slice(0, -1));
+    this.undoStack.update(stack => [...stack, entry]);
+    return entry.label;
+  }
+
+  clear(): void {
+    this.undoStack.set([]);
+    this.redoStack.set([]);
+  }
+}
@@ -0,0 +1,160 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { CategoryKey, Todo } from '../models/todo.model';
+import { TaskService } from './task.service';
+import { CategoryService } from './category.service';
+import { ToastService } from './toast.service';
+
+const INTERACTIVE_ELEMENTS = 'button, a[href], input, select, textarea, summary, [contenteditable], [role="button"], [tabindex]';
+
+/** A slot in the grid: a task, or an empty category when `todoId` is null. */
+export interface GridFocus {
+  day: string;
+  category: CategoryKey;
+  todoId: number | null;
+}
+
+/**
+ * Moves a focus cursor through the week grid with the keyboard and acts on the focused task.
+ *
+ *   Arrows              move between days (left/right) and tasks and categories (up/down)
+ *   Shift + arrows      move the focused task to another day or category
+ *   Space               toggle completion
+ *   Enter               edit
+ *   Backspace           send the task back to the backlog
+ *   Escape              leave keyboard navigation
+ *
+ * Space and Enter only act on the grid when nothing else would take them: while a button, link
+ * or field has the focus, or anything outside the grid, they are left to the browser.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class KeyboardNavigationService {
+  private taskService = inject(TaskService);
+  private categoryService = inject(CategoryService);
+  private toastService = inject(ToastService);
+
+  private requested = signal<GridFocus | null>(null);
+
+  /** The requested focus, corrected for tasks that moved away or weeks that changed under it. */
+  focus = computed<GridFocus | null>(() => {
+    const requested = this.requested();
+    if (!requested || !this.taskService.visibleDays().includes(requested.day)) return null;
+    const tasks = this.tasksAt(requested.day, requested.category);
+    if (requested.todoId !== null && tasks.some(t => t.id === requested.todoId)) return requested;
+    return { ...requested, todoId: tasks[0]?.id ?? null };
+  });
+
+  focusedTask = computed<Todo | null>(() => {
+    const focus = this.focus();
+    if (!focus || focus.todoId === null) return null;
+    return this.tasksAt(focus.day, focus.category).find(t => t.id === focus.todoId) ?? null;
+  });
+
+  isFocused(day: string, category: CategoryKey, todoId: number | null): boolean {
+    const focus = this.focus();
+    return !!focus && focus.day === day && focus.category === category && focus.todoId === todoId;
+  }
+
+  clear(): void {
+    this.requested.set(null);
+  }
+
+  /** Handles a keydown from anywhere on the page. Returns true if the key was used. */
+  handleKey(event: KeyboardEvent): boolean {
+    if (event.ctrlKey || event.metaKey || event.altKey) return false;
+    const arrows: { [key: string]: [number, number] } = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+    const focus = this.focus();
+
+    if (event.key in arrows) {
+      const [dx, dy] = arrows[event.key];
+      if (!focus) this.focusToday();
+      else if (event.shiftKey) this.moveFocusedTask(focus, dx, dy);
+      else if (dx !== 0) this.focusDay(focus, dx);
+      else this.focusVertical(focus, dy);
+      this.scrollIntoView();
+      return true;
+    }
+
+    const task = this.focusedTask();
+    if (!focus || !task) return false;
+    if ((event.key === ' ' || event.key === 'Enter') && !this.isGridTarget(event.target)) return false;
+    switch (event.key) {
+      case ' ':
+        this.taskService.toggleTodoCompletion(focus.day, focus.category, task.id);
+        return true;
+      case 'Enter':
+        this.taskService.startEdit(task);
+        // The edit field only exists after the next render.
+        setTimeout(() => document.querySelector<HTMLInputElement>(`[data-task-id="${task.id}"] input`)?.focus());
+        return true;
+      case 'Backspace':
+        this.taskService.returnToBacklog({ source: 'week', day: focus.day, category: focus.category, todo: task, weekKey: this.taskService.weekKeyFor(focus.day) });
+        return true;
+      case 'Escape':
+        this.clear();
+        return true;
+    }
+    return false;
+  }
+
+  private focusToday(): void {
+    const days = this.taskService.visibleDays();
+    const day = this.taskService.weekOffset() === 0 ? days[this.taskService.currentDayIndex()] : days[0];
+    const stop = this.stopsFor(day).find(s => s.todoId !== null) ?? this.stopsFor(day)[0];
+    this.requested.set(stop);
+  }
+
+  /** Keeps the category and, as far as possible, the position within it. */
+  private focusDay(focus: GridFocus, direction: number): void {
+    const days = this.taskService.visibleDays();
+    const day = days[days.indexOf(focus.day) + direction];
+    if (!day) return;
+    const index = Math.max(0, this.tasksAt(focus.day, focus.category).findIndex(t => t.id === focus.todoId));
+    const tasks = this.tasksAt(day, focus.category);
+    this.requested.set({ day, category: focus.category, todoId: tasks[Math.min(index, tasks.length - 1)]?.id ?? null });
+  }
+
+  private focusVertical(focus: GridFocus, direction: number): void {
+    const stops = this.stopsFor(focus.day);
+    const index = stops.findIndex(s => s.category === focus.category && s.todoId === focus.todoId);
+    const next = stops[index + direction];
+    if (next) this.requested.set(next);
+  }
+
+  private moveFocusedTask(focus: GridFocus, dx: number, dy: number): void {
+    const todo = this.focusedTask();
+    if (!todo) return;
+    const days = this.taskService.visibleDays();
+    const day = days[days.indexOf(focus.day) + dx];
+    const keys = this.categoryService.keys();
+    const category = keys[keys.indexOf(focus.category) + dy];
+    if (!day || !category) return;
+
+    const moved = this.taskService.moveTask({ source: 'week', day: focus.day, category: focus.category, todo, weekKey: this.taskService.weekKeyFor(focus.day) }, day, category);
+    if (moved) this.requested.set({ day, category, todoId: todo.id });
+    else if (!this.taskService.isDayOff(day)) this.toastService.show(`${this.categoryService.labelOf(category)} on ${day} is full`);
+  }
+
+  /** Every task of a day in grid order, with a stop for each empty category. */
+  private stopsFor(day: string): GridFocus[] {
+    return this.categoryService.keys().flatMap(category => {
+      const tasks = this.tasksAt(day, category);
+      return tasks.length > 0 ? tasks.map(t => ({ day, category, todoId: t.id })) : [{ day, category, todoId: null }];
+    });
+  }
+
+  /** Whether a key pressed on `target` is meant for the grid: the page itself, or a part of the grid that does not handle keys. */
+  private isGridTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof Element) || target === document.body || target === document.documentElement) return true;
+    return !!target.closest('[data-week-grid]') && !target.closest(INTERACTIVE_ELEMENTS);
+  }
+
+  private tasksAt(day: string, category: CategoryKey): Todo[] {
+    return this.taskService.week()[day]?.[category] ?? [];
+  }
+
+  private scrollIntoView(): void {
+    setTimeout(() => document.querySelector('[data-grid-focus="true"]')?.scrollIntoView({ block: 'nearest', inline: 'nearest' }));
+  }
+}
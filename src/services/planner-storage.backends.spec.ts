@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { todo } from '../testing/fixtures';
+import { LEGACY_STORAGE_KEYS, LocalStorageBackend } from './planner-storage.backends';
+
+describe('LocalStorageBackend', () => {
+  let originalConsoleError: typeof console.error;
+
+  beforeEach(() => {
+    originalConsoleError = console.error;
+    console.error = () => undefined;
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+    localStorage.clear();
+  });
+
+  it('reads nothing stored as first use', async () => {
+    const backend = new LocalStorageBackend();
+    expect(await backend.load()).toBeNull();
+    expect(backend.unreadableKeys).toEqual([]);
+  });
+
+  it('skips a corrupt key and keeps the ones that parse', async () => {
+    const pool = [todo(1)];
+    localStorage.setItem(LEGACY_STORAGE_KEYS.allWeeks, '{"2026-W42": {');
+    localStorage.setItem(LEGACY_STORAGE_KEYS.todoPool, JSON.stringify(pool));
+    localStorage.setItem(LEGACY_STORAGE_KEYS.trash, 'not json');
+
+    const backend = new LocalStorageBackend();
+    expect(await backend.load()).toEqual({ allWeeks: {}, todoPool: pool, trash: [], archive: [] });
+    expect(backend.unreadableKeys).toEqual([LEGACY_STORAGE_KEYS.allWeeks, LEGACY_STORAGE_KEYS.trash]);
+  });
+
+  it('forgets the corrupt keys of an earlier load', async () => {
+    localStorage.setItem(LEGACY_STORAGE_KEYS.todoPool, '[');
+    const backend = new LocalStorageBackend();
+    expect(await backend.load()).toBeNull();
+    expect(backend.unreadableKeys).toEqual([LEGACY_STORAGE_KEYS.todoPool]);
+
+    localStorage.setItem(LEGACY_STORAGE_KEYS.todoPool, '[]');
+    expect(await backend.load()).toEqual({ allWeeks: {}, todoPool: [], trash: [], archive: [] });
+    expect(backend.unreadableKeys).toEqual([]);
+  });
+});
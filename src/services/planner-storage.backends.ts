@@ -0,0 +1,174 @@
+import { Todo, Week, TrashedTodo, ArchivedTodo } from '../models/todo.model';
+
+// Where the planner's data lives. PlannerStorageService decides what changed; a backend
+// only knows how to read everything and how to write a set of changes.
+
+export interface PlannerState {
+  allWeeks: { [weekKey: string]: Week };
+  todoPool: Todo[];
+  trash: TrashedTodo[];
+  archive: ArchivedTodo[];
+}
+
+/** What a save writes. Weeks and tasks are written one by one; null deletes the entry. */
+export interface PlannerChanges {
+  weeks: { [weekKey: string]: Week | null };
+  tasks: { [todoId: number]: Todo | null };
+  trash?: TrashedTodo[];
+  archive?: ArchivedTodo[];
+}
+
+export interface PlannerStorageBackend {
+  readonly name: string;
+  /** Everything stored, or null if nothing was ever saved. */
+  load(): Promise<PlannerState | null>;
+  /** Writes `changes`; `state` is the full state they were taken from. */
+  save(changes: PlannerChanges, state: PlannerState): Promise<void>;
+}
+
+/** The keys the planner used when everything was kept in localStorage. */
+export const LEGACY_STORAGE_KEYS = {
+  allWeeks: 'planner-allWeeks',
+  todoPool: 'planner-todoPool',
+  trash: 'planner-trash',
+  archive: 'planner-archive',
+} as const;
+
+const DB_NAME = 'weekly-planner';
+const DB_VERSION = 1;
+const WEEKS_STORE = 'weeks';
+const TASKS_STORE = 'tasks';
+const LISTS_STORE = 'lists';
+
+/**
+ * One record per week (keyed by week key) and per backlog task (keyed by ID), so a save only
+ * rewrites what changed. Trash and archive are single records in a small key-value store.
+ */
+export class IndexedDbBackend implements PlannerStorageBackend {
+  readonly name = 'IndexedDB';
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async load(): Promise<PlannerState | null> {
+    const db = await this.open();
+    const tx = db.transaction([WEEKS_STORE, TASKS_STORE, LISTS_STORE], 'readonly');
+    const [weekKeys, weeks, tasks, trash, archive] = await Promise.all([
+      request(tx.objectStore(WEEKS_STORE).getAllKeys()),
+      request(tx.objectStore(WEEKS_STORE).getAll()),
+      request(tx.objectStore(TASKS_STORE).getAll()),
+      request(tx.objectStore(LISTS_STORE).get('trash')),
+      request(tx.objectStore(LISTS_STORE).get('archive')),
+    ]);
+    // The trash list is written by the very first save, so without it nothing was stored yet.
+    if (trash === undefined) return null;
+
+    return {
+      allWeeks: Object.fromEntries(weekKeys.map((key, i) => [key as string, weeks[i] as Week])),
+      todoPool: sortPool(tasks as Todo[]),
+      trash: trash as TrashedTodo[],
+      archive: (archive ?? []) as ArchivedTodo[],
+    };
+  }
+
+  async save(changes: PlannerChanges): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([WEEKS_STORE, TASKS_STORE, LISTS_STORE], 'readwrite');
+    const weeks = tx.objectStore(WEEKS_STORE);
+    const tasks = tx.objectStore(TASKS_STORE);
+    const lists = tx.objectStore(LISTS_STORE);
+
+    for (const [weekKey, week] of Object.entries(changes.weeks)) {
+      if (week) weeks.put(week, weekKey);
+      else weeks.delete(weekKey);
+    }
+    for (const [id, todo] of Object.entries(changes.tasks)) {
+      if (todo) tasks.put(todo);
+      else tasks.delete(Number(id));
+    }
+    if (changes.trash) lists.put(changes.trash, 'trash');
+    if (changes.archive) lists.put(changes.archive, 'archive');
+
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(tx.error ?? new Error('The save was aborted'));
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+      openRequest.onupgradeneeded = () => {
+        const db = openRequest.result;
+        if (!db.objectStoreNames.contains(WEEKS_STORE)) db.createObjectStore(WEEKS_STORE);
+        if (!db.objectStoreNames.contains(TASKS_STORE)) db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(LISTS_STORE)) db.createObjectStore(LISTS_STORE);
+      };
+      openRequest.onsuccess = () => resolve(openRequest.result);
+      openRequest.onerror = () => reject(openRequest.error);
+      openRequest.onblocked = () => reject(new Error('The database is blocked by another tab'));
+    });
+    // A failed open is retried on the next call instead of failing forever.
+    this.db.catch(() => (this.db = null));
+    return this.db;
+  }
+}
+
+/** The original format: one JSON blob per list. Used where IndexedDB is not available. */
+export class LocalStorageBackend implements PlannerStorageBackend {
+  readonly name = 'localStorage';
+  /** The keys the last load could not parse. They are read as if nothing was stored under them. */
+  unreadableKeys: string[] = [];
+
+  async load(): Promise<PlannerState | null> {
+    this.unreadableKeys = [];
+    const read = <T>(key: string): T | null => {
+      const item = localStorage.getItem(key);
+      if (!item) return null;
+      try {
+        return JSON.parse(item) as T;
+      } catch (error) {
+        console.error(`Could not read ${key}:`, error);
+        this.unreadableKeys.push(key);
+        return null;
+      }
+    };
+    const allWeeks = read<{ [weekKey: string]: Week }>(LEGACY_STORAGE_KEYS.allWeeks);
+    const todoPool = read<Todo[]>(LEGACY_STORAGE_KEYS.todoPool);
+    if (!allWeeks && !todoPool) return null;
+    return {
+      allWeeks: allWeeks ?? {},
+      todoPool: todoPool ?? [],
+      trash: read<TrashedTodo[]>(LEGACY_STORAGE_KEYS.trash) ?? [],
+      archive: read<ArchivedTodo[]>(LEGACY_STORAGE_KEYS.archive) ?? [],
+    };
+  }
+
+  async save(changes: PlannerChanges, state: PlannerState): Promise<void> {
+    // Throws QuotaExceededError when full, which the caller reports.
+    if (Object.keys(changes.weeks).length > 0) localStorage.setItem(LEGACY_STORAGE_KEYS.allWeeks, JSON.stringify(state.allWeeks));
+    if (Object.keys(changes.tasks).length > 0) localStorage.setItem(LEGACY_STORAGE_KEYS.todoPool, JSON.stringify(state.todoPool));
+    if (changes.trash) localStorage.setItem(LEGACY_STORAGE_KEYS.trash, JSON.stringify(changes.trash));
+    if (changes.archive) localStorage.setItem(LEGACY_STORAGE_KEYS.archive, JSON.stringify(changes.archive));
+  }
+}
+
+/**
+ * Tasks are stored unordered, so the pool is put back in the order the app builds it in:
+ * backlog tasks newest first (they are added at the front), then habits oldest first.
+ */
+function sortPool(tasks: Todo[]): Todo[] {
+  const backlog = tasks.filter(t => !t.habit).sort((a, b) => b.id - a.id);
+  const habits = tasks.filter(t => t.habit).sort((a, b) => a.id - b.id);
+  return [...backlog, ...habits];
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
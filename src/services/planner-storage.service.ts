@@ -0,0 +1,181 @@
+import { Injectable } from '@angular/core';
+import { Todo } from '../models/todo.model';
+import {
+  IndexedDbBackend,
+  LEGACY_STORAGE_KEYS,
+  LocalStorageBackend,
+  PlannerChanges,
+  PlannerState,
+  PlannerStorageBackend,
+} from './planner-storage.backends';
+
+const SYNC_CHANNEL = 'planner-sync';
+/** Fallback for browsers without BroadcastChannel: writing this key fires `storage` events in other tabs. */
+const SYNC_STORAGE_KEY = 'planner-sync';
+
+/** What was last read from or written to the backend, serialized for comparison. */
+interface PersistedSnapshot {
+  weeks: Map<string, string>;
+  tasks: Map<number, string>;
+  trash: string;
+  archive: string;
+}
+
+/**
+ * Persists the planner's weeks and lists. Only the weeks and tasks that changed since the
+ * last save are written, and other open tabs are told about every save so they can pick it up.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PlannerStorageService {
+  private backend: PlannerStorageBackend = IndexedDbBackend.isSupported() ? new IndexedDbBackend() : new LocalStorageBackend();
+  private persisted: PersistedSnapshot = snapshot({ allWeeks: {}, todoPool: [], trash: [], archive: [] });
+  private hasStoredData = false;
+  /** Saves run one after another, so each one is diffed against the result of the previous. */
+  private queue: Promise<unknown> = Promise.resolve();
+  private channel: BroadcastChannel | null = null;
+  private remoteListeners: ((remote: PlannerState) => void)[] = [];
+  /** Stored keys the last load had to skip because they could not be parsed. */
+  unreadableKeys: string[] = [];
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(SYNC_CHANNEL);
+      this.channel.onmessage = () => this.reloadForRemoteChange();
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', event => {
+        if (event.key === SYNC_STORAGE_KEY) this.reloadForRemoteChange();
+      });
+    }
+  }
+
+  /**
+   * Reads the stored data, or null on first use. Data still in the old localStorage keys is
+   * moved over on the first load with IndexedDB. Keys that cannot be parsed are skipped (see
+   * `unreadableKeys`) and left where they are.
+   */
+  async load(): Promise<PlannerState | null> {
+    let state = await this.backend.load();
+    if (this.backend instanceof LocalStorageBackend) this.unreadableKeys = this.backend.unreadableKeys;
+    if (!state && this.backend instanceof IndexedDbBackend) {
+      const legacy = new LocalStorageBackend();
+      state = await legacy.load();
+      this.unreadableKeys = legacy.unreadableKeys;
+      if (state) {
+        await this.backend.save(diff(this.persisted, state, true));
+        Object.values(LEGACY_STORAGE_KEYS).filter(key => !legacy.unreadableKeys.includes(key)).forEach(key => localStorage.removeItem(key));
+      }
+    }
+    if (state) {
+      this.persisted = snapshot(state);
+      this.hasStoredData = true;
+    }
+    return state;
+  }
+
+  /** Writes whatever differs from what was last persisted. Rejects with the backend's error. */
+  save(state: PlannerState): Promise<void> {
+    const run = this.queue.then(async () => {
+      const changes = diff(this.persisted, state, !this.hasStoredData);
+      if (Object.keys(changes.weeks).length === 0 && Object.keys(changes.tasks).length === 0 && !changes.trash && !changes.archive) return;
+      await this.backend.save(changes, state);
+      this.persisted = snapshot(state);
+      this.hasStoredData = true;
+      this.notifyOtherTabs();
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Called with the freshly loaded data whenever another tab has saved. Pass it to `mergeRemote`. */
+  onRemoteChange(listener: (remote: PlannerState) => void): void {
+    this.remoteListeners.push(listener);
+  }
+
+  /**
+   * Three-way merge of another tab's save into this tab's state. Every week, task and list
+   * that the other tab changed is taken over, unless this tab has unsaved edits to the same
+   * entry; those are kept and written over the other tab's version with the next save.
+   * Entries that did not change keep their identity, so unchanged weeks are not re-rendered.
+   */
+  mergeRemote(current: PlannerState, remote: PlannerState): PlannerState {
+    const base = this.persisted;
+    const theirs = snapshot(remote);
+    const takeRemote = (baseJson: string | undefined, localJson: string | undefined, remoteJson: string | undefined) =>
+      remoteJson !== baseJson && localJson === baseJson;
+
+    const allWeeks = { ...current.allWeeks };
+    for (const weekKey of new Set([...Object.keys(current.allWeeks), ...Object.keys(remote.allWeeks)])) {
+      const local = current.allWeeks[weekKey] ? JSON.stringify(current.allWeeks[weekKey]) : undefined;
+      if (!takeRemote(base.weeks.get(weekKey), local, theirs.weeks.get(weekKey))) continue;
+      if (remote.allWeeks[weekKey]) allWeeks[weekKey] = remote.allWeeks[weekKey];
+      else delete allWeeks[weekKey];
+    }
+
+    const remoteTasks = new Map(remote.todoPool.map(t => [t.id, t]));
+    const taken = new Set<number>();
+    for (const id of new Set([...current.todoPool.map(t => t.id), ...remoteTasks.keys()])) {
+      const local = current.todoPool.find(t => t.id === id);
+      if (takeRemote(base.tasks.get(id), local ? JSON.stringify(local) : undefined, theirs.tasks.get(id))) taken.add(id);
+    }
+    let todoPool = current.todoPool;
+    if (taken.size > 0) {
+      const kept = current.todoPool.flatMap(t => taken.has(t.id) ? (remoteTasks.has(t.id) ? [remoteTasks.get(t.id)!] : []) : [t]);
+      const added = remote.todoPool.filter(t => taken.has(t.id) && !current.todoPool.some(c => c.id === t.id));
+      todoPool = [...added.filter(t => !t.habit), ...kept, ...added.filter(t => t.habit)];
+    }
+
+    const trash = takeRemote(base.trash, JSON.stringify(current.trash), theirs.trash) ? remote.trash : current.trash;
+    const archive = takeRemote(base.archive, JSON.stringify(current.archive), theirs.archive) ? remote.archive : current.archive;
+
+    // The other tab's data is what is stored now; our own unsaved edits are diffed against it.
+    this.persisted = theirs;
+    return { allWeeks, todoPool, trash, archive };
+  }
+
+  private reloadForRemoteChange(): void {
+    // Queued behind our own saves, so a save in flight is never mistaken for the other tab's.
+    this.queue = this.queue.then(async () => {
+      const remote = await this.backend.load();
+      if (remote) this.remoteListeners.forEach(listener => listener(remote));
+    }).catch(error => console.error('Could not load changes from another tab:', error));
+  }
+
+  private notifyOtherTabs(): void {
+    if (this.channel) {
+      this.channel.postMessage('saved');
+    } else {
+      try {
+        localStorage.setItem(SYNC_STORAGE_KEY, String(Date.now()));
+      } catch {
+        // Other tabs will catch up on their next reload.
+      }
+    }
+  }
+}
+
+function snapshot(state: PlannerState): PersistedSnapshot {
+  return {
+    weeks: new Map(Object.entries(state.allWeeks).map(([weekKey, week]) => [weekKey, JSON.stringify(week)])),
+    tasks: new Map(state.todoPool.map(t => [t.id, JSON.stringify(t)])),
+    trash: JSON.stringify(state.trash),
+    archive: JSON.stringify(state.archive),
+  };
+}
+
+/** `includeLists` writes trash and archive even if unchanged, as the first save must (see IndexedDbBackend.load). */
+function diff(persisted: PersistedSnapshot, state: PlannerState, includeLists = false): PlannerChanges {
+  const next = snapshot(state);
+  const changes: PlannerChanges = { weeks: {}, tasks: {} };
+  for (const weekKey of new Set([...persisted.weeks.keys(), ...next.weeks.keys()])) {
+    if (persisted.weeks.get(weekKey) !== next.weeks.get(weekKey)) changes.weeks[weekKey] = state.allWeeks[weekKey] ?? null;
+  }
+  const pool = new Map<number, Todo>(state.todoPool.map(t => [t.id, t]));
+  for (const id of new Set([...persisted.tasks.keys(), ...next.tasks.keys()])) {
+    if (persisted.tasks.get(id) !== next.tasks.get(id)) changes.tasks[id] = pool.get(id) ?? null;
+  }
+  if (includeLists || persisted.trash !== next.trash) changes.trash = state.trash;
+  if (includeLists || persisted.archive !== next.archive) changes.archive = state.archive;
+  return changes;
+}
@@ -0,0 +1,94 @@
+import { Injectable, signal } from '@angular/core';
+
+/** The `beforeinstallprompt` event, which is not in the DOM typings yet. */
+interface InstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Everything about running as an installed, offline-capable app: the service worker
+ * (public/sw.js), updates to it, the install prompt and whether we are online.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PwaService {
+  isOnline = signal(typeof navigator === 'undefined' || navigator.onLine);
+  /** A new version is installed and waits for the open tabs to reload. */
+  updateAvailable = signal(false);
+  canInstall = signal(false);
+
+  /** Resolves once the service worker is active, or to null where there is none. */
+  readonly registration: Promise<ServiceWorkerRegistration | null> = this.registerServiceWorker();
+
+  private installPrompt: InstallPromptEvent | null = null;
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+    window.addEventListener('online', () => this.isOnline.set(true));
+    window.addEventListener('offline', () => this.isOnline.set(false));
+    window.addEventListener('beforeinstallprompt', event => {
+      // Keep the browser's own banner from showing; the settings menu offers the install instead.
+      event.preventDefault();
+      this.installPrompt = event as InstallPromptEvent;
+      this.canInstall.set(true);
+    });
+    window.addEventListener('appinstalled', () => {
+      this.installPrompt = null;
+      this.canInstall.set(false);
+    });
+  }
+
+  async install(): Promise<void> {
+    if (!this.installPrompt) return;
+    await this.installPrompt.prompt();
+    await this.installPrompt.userChoice;
+    // A prompt can only be used once.
+    this.installPrompt = null;
+    this.canInstall.set(false);
+  }
+
+  /** Activates the waiting version; the page reloads once it has taken over. */
+  async applyUpdate(): Promise<void> {
+    const registration = await this.registration;
+    if (registration?.waiting) registration.waiting.postMessage({ type: 'SKIP_WAITING' });
+    else window.location.reload();
+  }
+
+  private async registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+    try {
+      const registration = await navigator.serviceWorker.register('sw.js');
+      this.watchForUpdates(registration);
+      return await navigator.serviceWorker.ready;
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+      return null;
+    }
+  }
+
+  private watchForUpdates(registration: ServiceWorkerRegistration): void {
+    // The very first install has no controller yet; that is not an update.
+    const hadController = !!navigator.serviceWorker.controller;
+    if (registration.waiting && hadController) this.updateAvailable.set(true);
+
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) this.updateAvailable.set(true);
+      });
+    });
+
+    let reloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (!hadController || reloading) return;
+      reloading = true;
+      window.location.reload();
+    });
+
+    setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_INTERVAL_MS);
+  }
+}
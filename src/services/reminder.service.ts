@@ -0,0 +1,204 @@
+import { Injectable, signal, effect, inject, untracked } from '@angular/core';
+import { TaskService } from './task.service';
+import { StorageService } from './storage.service';
+import { CapacityService } from './capacity.service';
+import { PwaService } from './pwa.service';
+import { DueReminder, dueReminders } from '../utils/reminders';
+import { startOfDay, toDateKey } from '../utils/date.utils';
+
+export interface ReminderSettings {
+  enabled: boolean;
+  /** A morning notification with the goal of the day. */
+  digestEnabled: boolean;
+  /** Minutes since midnight. */
+  digestTime: number;
+}
+
+export type NotificationState = NotificationPermission | 'unsupported';
+
+/** A notification handed to the service worker, which shows it if no tab is open when it is due. */
+export interface ScheduledNotification {
+  tag: string;
+  title: string;
+  body: string;
+  /** ms since epoch */
+  at: number;
+}
+
+/** Periodic Background Sync, which is not in the DOM typings yet. */
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: {
+    register(tag: string, options: { minInterval: number }): Promise<void>;
+    unregister(tag: string): Promise<void>;
+  };
+}
+
+/** Reminders are armed this far ahead; the horizon moves along every REARM_INTERVAL_MS. */
+const HORIZON_MS = 24 * 60 * 60 * 1000;
+const REARM_INTERVAL_MS = 15 * 60 * 1000;
+/** The tag public/sw.js listens to for its periodic check. */
+const PERIODIC_SYNC_TAG = 'planner-reminders';
+
+/**
+ * Notifies about tasks with a reminder and sends the daily digest, through the service worker
+ * (see PwaService) so notifications also appear while the tab is in the background or offline.
+ *
+ * The timers are derived from allWeeks instead of being set up per action: whenever the weeks
+ * change they are re-armed, so completing a task, moving it (onDrop) or sending it back to the
+ * backlog (onPoolDrop) cancels or shifts its reminder, and a reload arms everything again.
+ * Notifications are tagged, so several open tabs only show each one once.
+ *
+ * With every tab closed the timers are gone. The upcoming notifications are therefore also
+ * handed to the service worker, which shows the ones that came due whenever the browser lets it
+ * check in (Periodic Background Sync, only for the installed app and at the browser's pace).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ReminderService {
+  private taskService = inject(TaskService);
+  private storageService = inject(StorageService);
+  private capacityService = inject(CapacityService);
+  private pwaService = inject(PwaService);
+
+  settings = signal<ReminderSettings>(this.storageService.get<ReminderSettings>('planner-reminderSettings') ?? { enabled: false, digestEnabled: false, digestTime: 8 * 60 });
+  permission = signal<NotificationState>(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+  private clock = signal(Date.now());
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** What the armed timers will show, by the same keys. */
+  private pending = new Map<string, ScheduledNotification>();
+  private digestTimer: ReturnType<typeof setTimeout> | null = null;
+  private digestAt: number | null = null;
+
+  constructor() {
+    effect(() => {
+      if (!this.taskService.isLoaded()) return;
+      const now = this.clock();
+      const due = this.settings().enabled
+        ? dueReminders(this.taskService.allWeeks(), this.taskService.daysOfWeek, now, now + HORIZON_MS, date => this.capacityService.scheduleFor(date).workStart)
+        : [];
+      untracked(() => this.arm(due));
+    });
+
+    effect(() => {
+      const settings = this.settings();
+      untracked(() => {
+        this.scheduleDigest(settings);
+        this.updatePeriodicSync(settings.enabled);
+      });
+    });
+
+    if (typeof window !== 'undefined') {
+      setInterval(() => this.clock.set(Date.now()), REARM_INTERVAL_MS);
+    }
+  }
+
+  async updateSettings(changes: Partial<ReminderSettings>): Promise<void> {
+    this.settings.update(settings => ({ ...settings, ...changes }));
+    this.storageService.set('planner-reminderSettings', this.settings());
+    if ((changes.enabled || changes.digestEnabled) && this.permission() === 'default') await this.requestPermission();
+  }
+
+  async requestPermission(): Promise<void> {
+    if (typeof Notification === 'undefined') return;
+    this.permission.set(await Notification.requestPermission());
+    this.handOver();
+  }
+
+  sendTestNotification(): void {
+    this.notify('Reminders are on', 'This is how reminders for your tasks will look.', 'planner-test');
+  }
+
+  /** Keeps the timers of reminders that are still due at the same time and replaces the rest. */
+  private arm(due: DueReminder[]): void {
+    const wanted = new Map(due.map(reminder => [`${reminder.todoId}@${reminder.dueAt}`, reminder]));
+    for (const [key, timer] of this.timers) {
+      if (!wanted.has(key)) {
+        clearTimeout(timer);
+        this.timers.delete(key);
+        this.pending.delete(key);
+      }
+    }
+    for (const [key, reminder] of wanted) {
+      if (this.timers.has(key)) continue;
+      const notification: ScheduledNotification = {
+        tag: `planner-reminder-${key}`,
+        title: reminder.text,
+        body: `Due at ${new Date(reminder.dueAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+        at: reminder.dueAt,
+      };
+      this.pending.set(key, notification);
+      this.timers.set(key, setTimeout(() => {
+        this.timers.delete(key);
+        this.pending.delete(key);
+        this.notify(notification.title, notification.body, notification.tag);
+        this.handOver();
+      }, reminder.dueAt - Date.now()));
+    }
+    this.handOver();
+  }
+
+  private scheduleDigest(settings: ReminderSettings): void {
+    if (this.digestTimer) clearTimeout(this.digestTimer);
+    this.digestTimer = null;
+    this.digestAt = null;
+    if (!settings.enabled || !settings.digestEnabled || typeof window === 'undefined') {
+      this.handOver();
+      return;
+    }
+
+    const now = new Date();
+    let next = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, settings.digestTime);
+    if (next <= now) next = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 0, settings.digestTime);
+    this.digestAt = next.getTime();
+    this.digestTimer = setTimeout(() => {
+      const digest = this.digestFor(Date.now());
+      if (digest) this.notify(digest.title, digest.body, digest.tag);
+      this.scheduleDigest(this.settings());
+    }, next.getTime() - now.getTime());
+    this.handOver();
+  }
+
+  /** The digest for the day of `at`, or null on a day off. */
+  private digestFor(at: number): ScheduledNotification | null {
+    const day = startOfDay(new Date(at));
+    const overview = this.taskService.getDayOverview(day);
+    if (overview.off) return null;
+    const title = overview.goal ? `Today's goal: ${overview.goal.text}` : 'No goal set for today';
+    const body = overview.total > 0
+      ? `${Math.round(overview.total / 6) / 10}h planned (${Math.round(overview.percentage)}% of your day).`
+      : 'Nothing planned yet. Open the planner to set up your day.';
+    return { tag: `planner-digest-${toDateKey(day)}`, title, body, at };
+  }
+
+  /** Gives the service worker the notifications still to come, replacing what it had. */
+  private async handOver(): Promise<void> {
+    const registration = await this.pwaService.registration;
+    if (!registration?.active) return;
+    const notifications = this.permission() === 'granted' ? [...this.pending.values()] : [];
+    const digest = this.digestAt !== null && this.permission() === 'granted' ? this.digestFor(this.digestAt) : null;
+    if (digest) notifications.push(digest);
+    registration.active.postMessage({ type: 'SCHEDULE_NOTIFICATIONS', notifications });
+  }
+
+  private async updatePeriodicSync(enabled: boolean): Promise<void> {
+    const registration = await this.pwaService.registration as PeriodicSyncRegistration | null;
+    if (!registration?.periodicSync) return;
+    try {
+      // Browsers check in far less often than asked; Chrome only does so for the installed app.
+      if (enabled) await registration.periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: REARM_INTERVAL_MS });
+      else await registration.periodicSync.unregister(PERIODIC_SYNC_TAG);
+    } catch {
+      // Not installed or not permitted: reminders then need an open tab.
+    }
+  }
+
+  private async notify(title: string, body: string, tag: string): Promise<void> {
+    if (this.permission() !== 'granted') return;
+    const options: NotificationOptions = { body, tag, icon: 'icons/icon-192.png' };
+    const registration = await this.pwaService.registration;
+    if (registration) await registration.showNotification(title, options);
+    else new Notification(title, options);
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable, signal, effect, inject, untracked } from '@angular/core';
+import { TaskService } from './task.service';
+import { StorageService } from './storage.service';
+import { ToastService } from './toast.service';
+import { toDateKey } from '../utils/date.utils';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class RolloverService {
+  private taskService = inject(TaskService);
+  private storageService = inject(StorageService);
+  private toastService = inject(ToastService);
+
+  autoRollover = signal<boolean>(this.storageService.get<boolean>('planner-autoRollover') ?? false);
+  isOpen = signal(false);
+
+  /** Set once the check has run for the loaded data, so navigating back to the current week does not repeat it. */
+  private hasChecked = false;
+
+  constructor() {
+    // Check once the data has loaded and the current week is shown (on load, or when navigating back to it).
+    effect(() => {
+      if (!this.taskService.isLoaded() || this.hasChecked) return;
+      if (this.taskService.weekOffset() === 0) {
+        this.hasChecked = true;
+        untracked(() => this.checkOnOpen());
+      }
+    });
+  }
+
+  open(): void {
+    this.isOpen.set(true);
+  }
+
+  close(): void {
+    this.isOpen.set(false);
+  }
+
+  setAutoRollover(enabled: boolean): void {
+    this.autoRollover.set(enabled);
+    this.storageService.set('planner-autoRollover', enabled);
+    if (enabled) this.rolloverAll();
+  }
+
+  private checkOnOpen(): void {
+    if (this.taskService.overdueTasks().length === 0) return;
+
+    if (this.autoRollover()) {
+      this.rolloverAll();
+      return;
+    }
+
+    // Prompt at most once a day; the week grid keeps an on-demand button.
+    const today = toDateKey(new Date());
+    if (this.storageService.get<string>('planner-rolloverPromptedOn') !== today) {
+      this.storageService.set('planner-rolloverPromptedOn', today);
+      this.open();
+    }
+  }
+
+  private rolloverAll(): void {
+    const overdue = this.taskService.overdueTasks();
+    if (overdue.length === 0) return;
+    const moved = overdue.length - this.taskService.rolloverTasks(overdue, 'today');
+    if (moved > 0) this.toastService.show(`Moved ${moved} unfinished task${moved === 1 ? '' : 's'} to today`);
+  }
+}
@@ -0,0 +1,178 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { TaskService } from './task.service';
+import { CategoryKey, Todo, Week, WeekLocation } from '../models/todo.model';
+import { addDays, parseDateKey, weekKeyDates } from '../utils/date.utils';
+import { fuzzyScore, tokenize } from '../utils/search';
+
+export interface SearchFilters {
+  status: 'all' | 'open' | 'done';
+  /** A grid category, the backlog, or null for everything. */
+  category: CategoryKey | 'backlog' | null;
+  /** `YYYY-MM-DD`, inclusive. Backlog tasks have no date and drop out when either is set. */
+  from: string | null;
+  to: string | null;
+}
+
+export interface SearchResult {
+  todo: Todo;
+  /** Null for the backlog. */
+  location: WeekLocation | null;
+  date: Date | null;
+  score: number;
+}
+
+/** Results of one week, or of the backlog when `weekKey` is null. */
+export interface SearchGroup {
+  weekKey: string | null;
+  dates: Date[];
+  results: SearchResult[];
+}
+
+interface IndexEntry {
+  todo: Todo;
+  location: WeekLocation | null;
+  date: Date | null;
+  /** Words of the text, tags, project and subtasks. */
+  words: string[];
+}
+
+const MAX_RESULTS = 200;
+const HIGHLIGHT_MS = 2500;
+
+/**
+ * Searches every task in all stored weeks and the backlog. The index is kept per week and is
+ * only rebuilt for weeks whose content changed, so typing a query never rescans the data.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SearchService {
+  private taskService = inject(TaskService);
+
+  isOpen = signal(false);
+  query = signal('');
+  filters = signal<SearchFilters>({ status: 'all', category: null, from: null, to: null });
+  /** The task a result was opened for, highlighted briefly in the grid or backlog. */
+  highlightedTaskId = signal<number | null>(null);
+
+  private weekIndex = new Map<string, { source: Week; json: string; entries: IndexEntry[] }>();
+  private poolIndex = new Map<number, { source: Todo; entry: IndexEntry }>();
+  private highlightTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private entries = computed(() => {
+    const weeks = this.taskService.allWeeks();
+    const pool = this.taskService.todoPool();
+    return [...this.updateWeekIndex(weeks), ...this.updatePoolIndex(pool)];
+  });
+
+  groups = computed<SearchGroup[]>(() => {
+    const queryTokens = tokenize(this.query());
+    if (queryTokens.length === 0) return [];
+    const filters = this.filters();
+    const from = filters.from ? parseDateKey(filters.from) : null;
+    const to = filters.to ? addDays(parseDateKey(filters.to), 1) : null;
+
+    const results: SearchResult[] = [];
+    for (const entry of this.entries()) {
+      if (filters.status === 'open' && entry.todo.completed) continue;
+      if (filters.status === 'done' && !entry.todo.completed) continue;
+      if (filters.category === 'backlog' && entry.location) continue;
+      if (filters.category && filters.category !== 'backlog' && entry.location?.category !== filters.category) continue;
+      if ((from || to) && (!entry.date || (from && entry.date < from) || (to && entry.date >= to))) continue;
+      const score = fuzzyScore(queryTokens, entry.words);
+      if (score !== null) results.push({ todo: entry.todo, location: entry.location, date: entry.date, score });
+    }
+    results.sort((a, b) => b.score - a.score);
+
+    const groups = new Map<string | null, SearchGroup>();
+    for (const result of results.slice(0, MAX_RESULTS)) {
+      const weekKey = result.location?.weekKey ?? null;
+      if (!groups.has(weekKey)) groups.set(weekKey, { weekKey, dates: weekKey ? weekKeyDates(weekKey) ?? [] : [], results: [] });
+      groups.get(weekKey)!.results.push(result);
+    }
+    // Backlog first, then the newest weeks.
+    return [...groups.values()].sort((a, b) => (a.weekKey === null ? -1 : b.weekKey === null ? 1 : b.weekKey.localeCompare(a.weekKey)));
+  });
+
+  resultCount = computed(() => this.groups().reduce((sum, group) => sum + group.results.length, 0));
+
+  open(): void {
+    this.isOpen.set(true);
+  }
+
+  close(): void {
+    this.isOpen.set(false);
+  }
+
+  updateFilters(changes: Partial<SearchFilters>): void {
+    this.filters.update(filters => ({ ...filters, ...changes }));
+  }
+
+  /** Shows the week (or backlog) of a result and highlights the task there. */
+  openResult(result: SearchResult): void {
+    if (result.date) this.taskService.goToDate(result.date);
+    if (!result.location) this.taskService.setFilter({ tags: [], project: null });
+    this.close();
+
+    if (this.highlightTimer) clearTimeout(this.highlightTimer);
+    this.highlightedTaskId.set(result.todo.id);
+    this.highlightTimer = setTimeout(() => this.highlightedTaskId.set(null), HIGHLIGHT_MS);
+    setTimeout(() => document.querySelector(`[data-task-id="${result.todo.id}"]`)?.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'smooth' }));
+  }
+
+  /**
+   * Weeks are copied on every change, so identity only tells that nothing changed (e.g. after
+   * a merge from another tab). Otherwise the week's JSON decides whether it is re-indexed.
+   */
+  private updateWeekIndex(weeks: { [weekKey: string]: Week }): IndexEntry[] {
+    for (const weekKey of this.weekIndex.keys()) {
+      if (!weeks[weekKey]) this.weekIndex.delete(weekKey);
+    }
+    const entries: IndexEntry[] = [];
+    for (const [weekKey, week] of Object.entries(weeks)) {
+      let cached = this.weekIndex.get(weekKey);
+      if (cached?.source !== week) {
+        const json = JSON.stringify(week);
+        if (cached?.json !== json) {
+          cached = { source: week, json, entries: this.indexWeek(weekKey, week) };
+        } else {
+          cached = { ...cached, source: week };
+        }
+        this.weekIndex.set(weekKey, cached);
+      }
+      entries.push(...cached.entries);
+    }
+    return entries;
+  }
+
+  private indexWeek(weekKey: string, week: Week): IndexEntry[] {
+    const dates = weekKeyDates(weekKey) ?? [];
+    return this.taskService.daysOfWeek.flatMap((day, i) =>
+      Object.entries(week[day] ?? {}).flatMap(([category, tasks]) => tasks.map(todo => ({
+        todo,
+        location: { type: 'week' as const, weekKey, day, category },
+        date: dates[i] ?? null,
+        words: this.wordsOf(todo),
+      }))),
+    );
+  }
+
+  private updatePoolIndex(pool: Todo[]): IndexEntry[] {
+    const ids = new Set(pool.map(t => t.id));
+    for (const id of this.poolIndex.keys()) {
+      if (!ids.has(id)) this.poolIndex.delete(id);
+    }
+    // Habits are templates; their instances in the weeks are what gets searched.
+    return pool.filter(todo => !todo.habit).map(todo => {
+      const cached = this.poolIndex.get(todo.id);
+      if (cached?.source === todo) return cached.entry;
+      const entry: IndexEntry = { todo, location: null, date: null, words: this.wordsOf(todo) };
+      this.poolIndex.set(todo.id, { source: todo, entry });
+      return entry;
+    });
+  }
+
+  private wordsOf(todo: Todo): string[] {
+    return tokenize([todo.text, ...(todo.tags ?? []), todo.project ?? '', ...(todo.subtasks ?? []).map(s => s.text)].join(' '));
+  }
+}
@@ -0,0 +1,186 @@
+import { Injectable, signal, computed, effect, inject, untracked } from '@angular/core';
+import { TaskService } from './task.service';
+import { StorageService } from './storage.service';
+import { PullResponse, PushResponse, SyncRecord, TaskEntry, diffTaskIndexes, indexTasks, toSyncRecord, tombstone } from '../utils/sync';
+
+export interface SyncSettings {
+  enabled: boolean;
+  /** Base URL of the sync server, e.g. `http://localhost:8787`. */
+  endpoint: string;
+  /** Sent as a bearer token when set. */
+  token: string;
+}
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
+const PUSH_DELAY_MS = 2000;
+const PULL_INTERVAL_MS = 60000;
+
+/**
+ * Optional sync with a self-hosted server (API in docs/sync-api.md). Local edits are queued
+ * per task and survive reloads, so the planner keeps working offline and catches up later.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SyncService {
+  private taskService = inject(TaskService);
+  private storageService = inject(StorageService);
+
+  settings = signal<SyncSettings>(this.storageService.get<SyncSettings>('planner-syncSettings') ?? { enabled: false, endpoint: '', token: '' });
+  status = signal<SyncStatus>('off');
+  lastError = signal<string | null>(null);
+  lastSyncedAt = signal<number | null>(this.storageService.get<number>('planner-syncLastSyncedAt'));
+  /** Local changes the server has not accepted yet, at most one per task. */
+  pending = signal<SyncRecord[]>(this.storageService.get<SyncRecord[]>('planner-syncQueue') ?? []);
+  pendingCount = computed(() => this.pending().length);
+
+  private cursor = this.storageService.get<number>('planner-syncCursor') ?? 0;
+  /** The tasks as of the last queued change, to find out what the next edit touched. */
+  private baseline: Map<number, TaskEntry> | null = null;
+  private isSyncing = false;
+  private syncAgain = false;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    // Turn every local edit into queued operations.
+    effect(() => {
+      if (!this.taskService.isLoaded()) return;
+      const index = indexTasks(this.taskService.allWeeks(), this.taskService.todoPool(), this.taskService.daysOfWeek);
+      untracked(() => this.queueLocalChanges(index));
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.syncNow());
+      window.addEventListener('offline', () => { if (this.settings().enabled) this.status.set('offline'); });
+      setInterval(() => this.syncNow(), PULL_INTERVAL_MS);
+    }
+    if (this.settings().enabled) this.status.set('idle');
+  }
+
+  updateSettings(changes: Partial<SyncSettings>): void {
+    const wasEnabled = this.settings().enabled;
+    this.settings.update(settings => ({ ...settings, ...changes, endpoint: (changes.endpoint ?? settings.endpoint).trim() }));
+    this.storageService.set('planner-syncSettings', this.settings());
+
+    if (!this.settings().enabled) {
+      this.status.set('off');
+      this.lastError.set(null);
+      return;
+    }
+    if (!wasEnabled) {
+      // Edits made while sync was off were not queued, so offer everything once.
+      this.baseline = null;
+      this.queueAllTasks();
+      this.status.set('idle');
+    }
+    this.syncNow();
+  }
+
+  /** Pushes queued changes, then pulls what other devices changed since the last sync. */
+  async syncNow(): Promise<void> {
+    const { enabled, endpoint } = this.settings();
+    if (!enabled || !endpoint || !this.taskService.isLoaded()) return;
+    if (this.isSyncing) {
+      this.syncAgain = true;
+      return;
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      this.status.set('offline');
+      return;
+    }
+
+    this.isSyncing = true;
+    this.status.set('syncing');
+    try {
+      const sent = this.pending();
+      if (sent.length > 0) {
+        const pushed = await this.request<PushResponse>('POST', '/tasks', { changes: sent });
+        // Entries replaced by newer edits while the request was out stay queued.
+        this.pending.update(queue => queue.filter(record => !sent.includes(record)));
+        this.applyRemote(pushed.conflicts);
+      }
+      const pulled = await this.request<PullResponse>('GET', `/tasks?since=${this.cursor}`);
+      this.applyRemote(pulled.tasks);
+      this.cursor = pulled.cursor;
+      this.storageService.set('planner-syncCursor', this.cursor);
+      this.lastSyncedAt.set(Date.now());
+      this.storageService.set('planner-syncLastSyncedAt', this.lastSyncedAt());
+      this.lastError.set(null);
+      this.status.set('idle');
+    } catch (error) {
+      const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+      this.status.set(offline ? 'offline' : 'error');
+      this.lastError.set(error instanceof Error ? error.message : String(error));
+    } finally {
+      this.isSyncing = false;
+      this.storageService.set('planner-syncQueue', this.pending());
+      if (this.syncAgain) {
+        this.syncAgain = false;
+        this.schedulePush();
+      }
+    }
+  }
+
+  private queueLocalChanges(index: Map<number, TaskEntry>): void {
+    const previous = this.baseline;
+    this.baseline = index;
+    if (!this.settings().enabled) return;
+    if (!previous) {
+      // First look at the loaded data: catch up with the server.
+      this.schedulePush();
+      return;
+    }
+
+    const { changed, removed } = diffTaskIndexes(previous, index);
+    if (changed.length === 0 && removed.length === 0) return;
+    this.enqueue([...changed.map(entry => toSyncRecord(entry)), ...removed.map(id => tombstone(id))]);
+  }
+
+  private queueAllTasks(): void {
+    const index = indexTasks(this.taskService.allWeeks(), this.taskService.todoPool(), this.taskService.daysOfWeek);
+    this.baseline = index;
+    this.enqueue([...index.values()].map(entry => toSyncRecord(entry)));
+  }
+
+  private enqueue(records: SyncRecord[]): void {
+    const ids = new Set(records.map(r => r.id));
+    this.pending.update(queue => [...queue.filter(r => !ids.has(r.id)), ...records]);
+    this.storageService.set('planner-syncQueue', this.pending());
+    this.schedulePush();
+  }
+
+  private schedulePush(): void {
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = setTimeout(() => this.syncNow(), PUSH_DELAY_MS);
+  }
+
+  /** Takes over the records that are newer than the local copy (queued or not) of their task. */
+  private applyRemote(records: SyncRecord[]): void {
+    const local = indexTasks(this.taskService.allWeeks(), this.taskService.todoPool(), this.taskService.daysOfWeek);
+    const queued = new Map(this.pending().map(r => [r.id, r]));
+    const newer = records.filter(record => record.updatedAt > (queued.get(record.id)?.updatedAt ?? local.get(record.id)?.todo.updatedAt ?? 0));
+    if (newer.length === 0) return;
+
+    const newerIds = new Set(newer.map(r => r.id));
+    this.pending.update(queue => queue.filter(r => !newerIds.has(r.id)));
+    const duplicates = this.taskService.applySyncedTasks(newer);
+    // What came from the server is not a local edit; only the duplicate clean-up is.
+    this.baseline = indexTasks(this.taskService.allWeeks(), this.taskService.todoPool(), this.taskService.daysOfWeek);
+    if (duplicates.length > 0) this.enqueue(duplicates.map(id => tombstone(id)));
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const { endpoint, token } = this.settings();
+    const response = await fetch(endpoint.replace(/\/+$/, '') + path, {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) throw new Error(`Sync server answered ${response.status} ${response.statusText}`.trim());
+    return response.json() as Promise<T>;
+  }
+}
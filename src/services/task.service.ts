@@ -1,9 +1,38 @@
-import { Injectable, signal, computed, effect, inject } from '@angular/core';
-import { Todo, Week, CategoryKey, DayTasks, DropTarget, DraggedTaskInfo, CATEGORIES } from '../models/todo.model';
+import { Injectable, signal, computed, effect, inject, untracked } from '@angular/core';
+import { Todo, Week, CategoryConfig, CategoryKey, DayTasks, DropTarget, DraggedTaskInfo, RecurrenceRule, TaskLocation, TrashedTodo, ArchivedTodo, OverdueTask, DaySchedule, Reminder, Subtask, TimeLog, actualMinutes, getTaskPriority, taskDuration } from '../models/todo.model';
 import { StorageService } from './storage.service';
 import { AudioService } from './audio.service';
+import { SchedulingPlanItem } from './gemini.service';
+import { HistoryService } from './history.service';
+import { ToastService } from './toast.service';
+import { CapacityService } from './capacity.service';
+import { CategoryService } from './category.service';
+import { PlannerStorageService } from './planner-storage.service';
+import { PlannerState } from './planner-storage.backends';
+import { occursOn } from '../utils/recurrence';
+import { addDays, daysBetween, isoWeekKey, mondayBasedDay, parseDateKey, startOfDay, startOfWeek, toDateKey, weekKeyDates } from '../utils/date.utils';
+import { createBackup, migrateLegacyCategories, migrateLegacyWeekKeys, ImportPlan } from '../utils/backup';
+import { formatClock, packDay } from '../utils/timeline';
+import { unknownCategoryKeys, withCategoryLists } from '../utils/categories';
+import { DatedWeek } from '../utils/analytics';
+import { indexTasks, taskFingerprint, SyncRecord } from '../utils/sync';
+import { QuickAddResult } from '../utils/quick-add';
+import { EMPTY_FILTER, TaskFilter, formatTagList, matchesFilter, parseTagList } from '../utils/tags';
+import { buildICalendar, parseICalendar, parseTaskUid, taskUid, ICalComponent, ICalExportEntry, ICalImportEntry } from '../utils/ical';
 
-export type SaveStatus = 'All changes saved' | 'Saving...';
+export type SaveStatus = 'Loading...' | 'All changes saved' | 'Saving...' | 'Save failed';
+export type DayView = 'slots' | 'timeline';
+export type BacklogView = 'list' | 'matrix';
+
+type StateSnapshot = PlannerState;
+
+/** What one recorded change did: only the weeks it touched plus the lists it replaced. */
+interface StateChange {
+  weeks: { [weekKey: string]: { before?: Week; after?: Week } };
+  lists: Partial<{ [K in Exclude<keyof StateSnapshot, 'allWeeks'>]: { before: StateSnapshot[K]; after: StateSnapshot[K] } }>;
+  /** The category configuration, if the change added or removed a category. */
+  categories?: { before: CategoryConfig[]; after: CategoryConfig[] };
+}
 
 @Injectable({
   providedIn: 'root',
@@ -11,13 +40,30 @@ export type SaveStatus = 'All changes saved' | 'Saving...';
 export class TaskService {
   private storageService = inject(StorageService);
   private audioService = inject(AudioService);
+  private historyService = inject(HistoryService);
+  private toastService = inject(ToastService);
+  private capacityService = inject(CapacityService);
+  private categoryService = inject(CategoryService);
+  private plannerStorage = inject(PlannerStorageService);
+  private lastIssuedId = 0;
+  private isRecordingChange = false;
 
   // Core State Signals
+  /** Day names in storage order: every stored week runs Monday to Sunday under its ISO 8601 week key. */
   readonly daysOfWeek: string[] = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
   
   weekOffset = signal<number>(0);
-  allWeeks = signal<{ [weekKey: string]: Week }>(this.storageService.get<{ [weekKey: string]: Week }>('planner-allWeeks') || {});
-  todoPool = signal<Todo[]>(this.storageService.get<Todo[]>('planner-todoPool') || this.getInitialTodoPool());
+  /** First day of the displayed week, Monday (0) to Sunday (6). Only affects display; storage stays ISO. */
+  firstDayOfWeek = signal<number>(this.storageService.get<number>('planner-firstDayOfWeek') ?? 0);
+  // Filled in once PlannerStorageService has loaded (see hydrate)
+  allWeeks = signal<{ [weekKey: string]: Week }>({});
+  todoPool = signal<Todo[]>([]);
+  trash = signal<TrashedTodo[]>([]);
+  archive = signal<ArchivedTodo[]>([]);
+  isLoaded = signal(false);
+  trashRetentionDays = signal<number>(this.storageService.get<number>('planner-trashRetentionDays') ?? 30); // 0 = keep forever
+  /** Whether checking off the last subtask also completes the task. */
+  autoCompleteFromSubtasks = signal<boolean>(this.storageService.get<boolean>('planner-autoCompleteFromSubtasks') ?? true);
   
   // UI & Interaction State Signals
   isDraggingTask = signal(false);
@@ -27,10 +73,26 @@ export class TaskService {
   editingTaskId = signal<number | null>(null);
   editingTaskText = signal('');
   editingTaskDuration = signal<number | string>(30);
-  saveStatus = signal<SaveStatus>('All changes saved');
+  editingTaskTags = signal('');
+  editingTaskProject = signal('');
+  editingTaskReminder = signal<Reminder | null>(null);
+  /** The task whose checklist is unfolded for editing. */
+  openChecklistId = signal<number | null>(null);
+  taskFilter = signal<TaskFilter>(EMPTY_FILTER);
+  saveStatus = signal<SaveStatus>('Loading...');
+  /** Why the last save failed, while saveStatus is 'Save failed'. */
+  saveError = signal<string | null>(null);
+  dayView = signal<DayView>(this.storageService.get<DayView>('planner-dayView') ?? 'slots');
+  backlogView = signal<BacklogView>(this.storageService.get<BacklogView>('planner-backlogView') ?? 'list');
 
   // Date & Week Computations
-  weekDateObjects = computed(() => this.calculateWeekDates(this.weekOffset()));
+  /** Day names in display order, starting with firstDayOfWeek. */
+  visibleDays = computed(() => {
+    const first = this.firstDayOfWeek();
+    return [...this.daysOfWeek.slice(first), ...this.daysOfWeek.slice(0, first)];
+  });
+
+  weekDateObjects = computed(() => this.getDisplayedWeekDates(this.weekOffset()));
   weekDates = computed(() => this.weekDateObjects().map(day => `${day.getDate().toString().padStart(2, '0')}.${(day.getMonth() + 1).toString().padStart(2, '0')}.${day.getFullYear().toString().slice(-2)}`));
   
   weekDateRange = computed(() => {
@@ -42,110 +104,181 @@ export class TaskService {
     return `${format(firstDay)} - ${format(lastDay)}`;
   });
 
-  currentWeekKey = computed(() => {
-    const monday = this.getMondayOfWeek(this.weekOffset());
-    const year = monday.getFullYear();
-    const firstDayOfYear = new Date(year, 0, 1);
-    const pastDaysOfYear = (monday.getTime() - firstDayOfYear.getTime()) / 86400000;
-    const weekNumber = Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
-    return `${year}-W${String(weekNumber).padStart(2, '0')}`;
+  /** ISO week of the displayed week; when it does not start on Monday, the week most of its days belong to. */
+  currentWeekKey = computed(() => isoWeekKey(addDays(this.weekDateObjects()[0], 3)));
+
+  /** Storage week key of each displayed day. They differ only when the week does not start on Monday. */
+  dayWeekKeys = computed(() => {
+    const dates = this.weekDateObjects();
+    return Object.fromEntries(this.visibleDays().map((day, i) => [day, isoWeekKey(dates[i])])) as Record<string, string>;
   });
 
+  /** The displayed days, each read from the stored week its date belongs to. */
   week = computed(() => {
-    const key = this.currentWeekKey();
+    const keys = this.dayWeekKeys();
     const currentWeeks = this.allWeeks();
-    return currentWeeks[key] || this.initializeWeek();
+    return Object.fromEntries(this.daysOfWeek.map(day => [day, currentWeeks[keys[day]]?.[day] ?? this.initializeDay()])) as Week;
   });
 
-  currentDayIndex = computed(() => {
-    const today = new Date();
-    const currentDay = today.getDay(); // Sunday - 0
-    return currentDay === 0 ? 6 : currentDay - 1; // Monday - 0
-  });
+  /** Position of today within the displayed week's days. */
+  currentDayIndex = computed(() => (mondayBasedDay(new Date()) - this.firstDayOfWeek() + 7) % 7);
 
   // Task Pool Computations
-  backlogPool = computed(() => this.todoPool().filter(t => !t.habit).sort((a, b) => b.id - a.id));
+  /** The backlog, narrowed by the filter bar. */
+  backlogPool = computed(() => {
+    const filter = this.taskFilter();
+    return this.todoPool().filter(t => !t.habit && matchesFilter(t, filter)).sort((a, b) => b.id - a.id);
+  });
+  backlogCount = computed(() => this.todoPool().filter(t => !t.habit).length);
   
+  habits = computed(() => this.todoPool().filter(t => t.habit));
+
   basicsPool = computed(() => {
     const allTasksInWeek = Object.values(this.week()).flatMap((day: DayTasks) => Object.values(day).flat());
     const scheduledChoreSourceIds = new Set(allTasksInWeek.filter(task => task.sourceId != null).map(task => task.sourceId));
     return this.todoPool().filter(t => t.habit && !scheduledChoreSourceIds.has(t.id));
   });
 
+  // Incomplete tasks on days before today, oldest first
+  overdueTasks = computed<OverdueTask[]>(() => {
+    const today = startOfDay(new Date());
+    const result: OverdueTask[] = [];
+    for (const { weekKey, dates, week } of this.storedWeeks()) {
+      if (dates[0] >= today) break;
+      this.daysOfWeek.forEach((day, dayIndex) => {
+        if (dates[dayIndex] >= today) return;
+        for (const category of this.categoryService.keys()) {
+          for (const todo of week?.[day]?.[category] ?? []) {
+            if (!todo.completed) result.push({ todo, location: { type: 'week', weekKey, day, category } });
+          }
+        }
+      });
+    }
+    return result;
+  });
+
+  // Availability of each day of the displayed week, including per-date overrides
+  daySchedules = computed(() => {
+    const dates = this.weekDateObjects();
+    return Object.fromEntries(this.visibleDays().map((day, i) => [day, this.capacityService.scheduleFor(dates[i])])) as Record<string, DaySchedule>;
+  });
+
   // Daily Stats
-  private readonly dailyCapacity = 480; // 8 hours in minutes
   dailyLoad = computed(() => {
     const weekData = this.week();
-    const result: Record<string, { total: number; percentage: number; color: string }> = {};
+    const schedules = this.daySchedules();
+    const result: Record<string, { total: number; actual: number; capacity: number; percentage: number; color: string }> = {};
     for (const day of this.daysOfWeek) {
         const dayTasks = weekData[day];
         // FIX: Replaced problematic `concat` with `flat()` for a cleaner, more type-safe way to flatten the array of task arrays.
         // `Object.values` on a mapped type can be inferred as `unknown[]`, so we cast it to ensure type safety before flattening.
         const allDayTasks: Todo[] = (Object.values(dayTasks ?? {}) as Todo[][]).flat();
         // Explicitly type accumulator to avoid inference errors
-        const totalMinutes = allDayTasks.reduce((sum: number, task: Todo) => sum + (task.duration || 0), 0);
+        const totalMinutes = allDayTasks.reduce((sum: number, task: Todo) => sum + taskDuration(task), 0);
+        // Minutes tracked with the focus timer, to compare against the estimate
+        const actualTotal = allDayTasks.reduce((sum: number, task: Todo) => sum + actualMinutes(task), 0);
         
-        const percentage = this.dailyCapacity > 0 ? Math.min((totalMinutes / this.dailyCapacity) * 100, 100) : 0;
-        result[day] = { total: totalMinutes, percentage, color: this.getLoadColor(percentage) };
+        const capacity = schedules[day].off ? 0 : schedules[day].capacity;
+        const percentage = capacity > 0 ? Math.min((totalMinutes / capacity) * 100, 100) : (totalMinutes > 0 ? 100 : 0);
+        result[day] = { total: totalMinutes, actual: actualTotal, capacity, percentage, color: this.getLoadColor(totalMinutes, capacity) };
+    }
+    return result;
+  });
+
+  // Minutes per project for each displayed day; tasks without a project are counted under ''
+  projectLoad = computed(() => {
+    const weekData = this.week();
+    const result: Record<string, Record<string, number>> = {};
+    for (const day of this.daysOfWeek) {
+      result[day] = {};
+      for (const task of (Object.values(weekData[day] ?? {}) as Todo[][]).flat()) {
+        const project = task.project ?? '';
+        result[day][project] = (result[day][project] ?? 0) + taskDuration(task);
+      }
     }
     return result;
   });
 
+  // Planned and completed minutes per project over the displayed week, largest first
+  weekProjectTotals = computed(() => {
+    const weekData = this.week();
+    const totals = new Map<string, { project: string; total: number; completed: number }>();
+    for (const day of this.daysOfWeek) {
+      for (const task of (Object.values(weekData[day] ?? {}) as Todo[][]).flat()) {
+        const project = task.project ?? '';
+        const entry = totals.get(project) ?? { project, total: 0, completed: 0 };
+        entry.total += taskDuration(task);
+        if (task.completed) entry.completed += taskDuration(task);
+        totals.set(project, entry);
+      }
+    }
+    return [...totals.values()].sort((a, b) => b.total - a.total);
+  });
+
+  // Every tag and project in use, for the filter bar and the edit fields
+  allTags = computed(() => {
+    const tags = new Set<string>();
+    this.forEachStoredTask(todo => todo.tags?.forEach(tag => tags.add(tag)));
+    return [...tags].sort();
+  });
+  allProjects = computed(() => {
+    const projects = new Set<string>();
+    this.forEachStoredTask(todo => { if (todo.project) projects.add(todo.project); });
+    return [...projects].sort((a, b) => a.localeCompare(b));
+  });
+
   constructor() {
-    // Data Migration: Ensure new category keys exist for existing data (legacy chore/core/offTime -> basics/work/leisure)
-    this.allWeeks.update(weeks => {
-      // FIX: Added type assertion to prevent `JSON.parse` from returning `any` and polluting the signal's type.
-      const updatedWeeks = JSON.parse(JSON.stringify(weeks)) as { [weekKey: string]: Week };
-      let changed = false;
-      Object.keys(updatedWeeks).forEach(weekKey => {
-        const week = updatedWeeks[weekKey];
-        this.daysOfWeek.forEach(day => {
-          if (week[day]) {
-             // Migrate Basics
-             if (!week[day].basics) {
-                week[day].basics = (week[day] as any).chore || [];
-                delete (week[day] as any).chore;
-                changed = true;
-             }
-             // Migrate Work
-             if (!week[day].work) {
-                week[day].work = (week[day] as any).core || [];
-                delete (week[day] as any).core;
-                changed = true;
-             }
-             // Migrate Leisure
-             if (!week[day].leisure) {
-                week[day].leisure = (week[day] as any).offTime || [];
-                delete (week[day] as any).offTime;
-                changed = true;
-             }
-             
-             // Ensure Focus and Goal exist (just in case)
-             if (!week[day].focus) { week[day].focus = []; changed = true; }
-             if (!week[day].goal) { week[day].goal = []; changed = true; }
-          }
-        });
-      });
-      return changed ? updatedWeeks : weeks;
+    this.plannerStorage.load().then(
+      state => {
+        this.hydrate(state);
+        const unreadable = this.plannerStorage.unreadableKeys;
+        if (unreadable.length > 0) {
+          this.saveError.set(`Some saved data could not be read and was skipped: ${unreadable.join(', ')}`);
+          this.toastService.show('Some of your saved data could not be read and was skipped', 6000);
+        }
+      },
+      error => {
+        console.error('Error loading planner data:', error);
+        this.saveStatus.set('Save failed');
+        this.saveError.set(`Could not load your data: ${this.describeError(error)}`);
+      },
+    );
+
+    // Another tab saved: take over its changes, except where this tab has unsaved edits.
+    this.plannerStorage.onRemoteChange(remote => {
+      if (!this.isLoaded()) return;
+      const merged = this.plannerStorage.mergeRemote(this.captureState(), remote);
+      this.allWeeks.set(merged.allWeeks);
+      this.todoPool.set(merged.todoPool);
+      this.trash.set(merged.trash);
+      this.archive.set(merged.archive);
+      this.ensureDisplayedWeeks();
     });
 
-    // Auto-create week if it doesn't exist on load
-    if(!this.allWeeks()[this.currentWeekKey()]) {
-      this.allWeeks.update(weeks => ({...weeks, [this.currentWeekKey()]: this.initializeWeek()}));
-    }
+    // Every stored day keeps a list for each configured category, whatever brought the week in
+    // (import, sync, undo); categories that only the data knows about are taken over.
+    effect(() => {
+      if (!this.isLoaded()) return;
+      const weeks = this.allWeeks();
+      const keys = this.categoryService.keys();
+      untracked(() => {
+        this.categoryService.adopt(unknownCategoryKeys(weeks, this.daysOfWeek, keys));
+        const complete = withCategoryLists(weeks, this.daysOfWeek, this.categoryService.keys());
+        if (complete !== weeks) this.allWeeks.set(complete);
+      });
+    });
 
     // Auto-save effect with status update
     effect((onCleanup) => {
-      const weeks = this.allWeeks();
-      const pool = this.todoPool();
+      const state = this.captureState();
+      if (!this.isLoaded()) return;
 
-      this.saveStatus.set('Saving...');
+      // A failed save keeps saying so until a later one goes through.
+      untracked(() => {
+        if (this.saveStatus() !== 'Save failed') this.saveStatus.set('Saving...');
+      });
 
-      const timeoutId = setTimeout(() => {
-        this.storageService.set('planner-allWeeks', weeks);
-        this.storageService.set('planner-todoPool', pool);
-        this.saveStatus.set('All changes saved');
-      }, 1200);
+      const timeoutId = setTimeout(() => this.persist(state), 1200);
 
       onCleanup(() => {
         clearTimeout(timeoutId);
@@ -157,70 +290,382 @@ export class TaskService {
 
   // Week Navigation
   navigateWeek(direction: number): void {
-    this.weekOffset.update(val => val + direction);
-    const newWeekKey = this.currentWeekKey();
-    if (!this.allWeeks()[newWeekKey]) {
-      this.allWeeks.update(weeks => ({ ...weeks, [newWeekKey]: this.initializeWeek() }));
-    }
+    this.setWeekOffset(this.weekOffset() + direction);
   }
 
-  // Task Management
-  addTodo(text: string, duration: number | string): void {
-    const newTodo: Todo = {
-      id: Date.now(),
-      text: text.trim(),
-      completed: false,
-      urgent: false, // Default state is not urgent
-      important: true, // Default state is important (Focus-like)
-      duration: Number(duration) || 30,
-      habit: false,
-    };
-    this.todoPool.update(pool => [newTodo, ...pool]);
+  goToToday(): void {
+    this.setWeekOffset(0);
   }
 
-  addTodoToDay(day: string, category: CategoryKey, text: string, duration: number): void {
-    const newTodo: Todo = {
-        id: Date.now(),
+  /** Shows the week that contains `date`. */
+  goToDate(date: Date): void {
+    const first = this.firstDayOfWeek();
+    this.setWeekOffset(Math.round(daysBetween(startOfWeek(new Date(), first), startOfWeek(date, first)) / 7));
+  }
+
+  /** Shows the week stored under an ISO week key. Returns false for keys that are not valid week keys. */
+  goToWeekKey(weekKey: string): boolean {
+    const dates = weekKeyDates(weekKey);
+    if (!dates) return false;
+    // Thursday decides which displayed week an ISO week belongs to, whatever day the week starts on.
+    this.goToDate(dates[3]);
+    return true;
+  }
+
+  setWeekOffset(offset: number): void {
+    this.weekOffset.set(offset);
+    this.ensureDisplayedWeeks();
+  }
+
+  setFirstDayOfWeek(day: number): void {
+    this.firstDayOfWeek.set(day);
+    this.storageService.set('planner-firstDayOfWeek', day);
+    this.ensureDisplayedWeeks();
+  }
+
+  /** Storage week key of a displayed day. */
+  weekKeyFor(day: string): string {
+    return this.dayWeekKeys()[day];
+  }
+
+  // Task Management
+  addTodo(text: string, duration: number | string, options: { category?: CategoryKey; tags?: string[] } = {}): void {
+    this.recordChange(`Add "${text.trim()}"`, () => {
+      const newTodo: Todo = {
+        id: this.nextId(),
         text: text.trim(),
         completed: false,
-        urgent: category === 'goal' || category === 'work',
-        important: category === 'goal' || category === 'focus',
-        duration: duration,
-        habit: false
-    };
+        urgent: false, // Default state is not urgent
+        important: true, // Default state is important (Focus-like)
+        duration: Number(duration) || 30,
+        habit: false,
+        ...(options.tags?.length ? { tags: options.tags } : {}),
+      };
+      if (options.category) this.categoryService.applyFlags(newTodo, options.category);
+      this.todoPool.update(pool => [newTodo, ...pool]);
+    });
+  }
 
-    const weekKey = this.currentWeekKey();
-    this.allWeeks.update(currentWeeks => {
-        // FIX: Added type assertion to prevent `JSON.parse` from returning `any`.
+  addTodoToDay(day: string, category: CategoryKey, text: string, duration: number, tags: string[] = []): void {
+    this.addTodoOnDate(this.weekDateObjects()[this.visibleDays().indexOf(day)], category, text, duration, tags);
+  }
+
+  /** Adds a task to any date, creating its week if needed. A full category falls back to the next one with room. */
+  addTodoOnDate(date: Date, category: CategoryKey, text: string, duration: number, tags: string[] = []): void {
+    const day = this.daysOfWeek[mondayBasedDay(date)];
+    if (this.capacityService.scheduleFor(date).off) {
+      this.toastService.show(`${this.formatDay(day)} ${toDateKey(date)} is marked as a day off`);
+      return;
+    }
+    const weekKey = isoWeekKey(date);
+    const slot = this.categoryService.categoryWithRoom(this.allWeeks()[weekKey]?.[day], category);
+    if (!slot) {
+      this.toastService.show(`${this.categoryService.labelOf(category)} is full on ${this.formatDay(day)} ${toDateKey(date)}`);
+      return;
+    }
+    this.recordChange(`Add "${text.trim()}" to ${this.formatDay(day)}`, () => {
+      this.allWeeks.update(currentWeeks => {
+          // FIX: Added type assertion to prevent `JSON.parse` from returning `any`.
+          const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
+          // Ensure the week and day structure exists
+          if(!newWeeks[weekKey]) newWeeks[weekKey] = this.createWeek(weekKey);
+
+          const newTodo: Todo = {
+              id: this.nextId(),
+              text: text.trim(),
+              completed: false,
+              urgent: false,
+              important: false,
+              duration: duration,
+              habit: false,
+              ...(tags.length ? { tags } : {}),
+          };
+          this.categoryService.applyFlags(newTodo, slot);
+          (newWeeks[weekKey][day][slot] ??= []).push(newTodo);
+          return newWeeks;
+      });
+    });
+  }
+
+  /**
+   * Adds a task typed in quick-add syntax (see utils/quick-add): recurring tasks become chores,
+   * dated ones go onto their day and the rest into the backlog. `defaults` stand in for what
+   * the text leaves out, e.g. the day and slot of a day column's quick add.
+   */
+  addQuickTask(parsed: QuickAddResult, defaults: { duration?: number; date?: Date; category?: CategoryKey } = {}): void {
+    const text = parsed.text.trim();
+    if (!text) return;
+    const duration = parsed.duration ?? defaults.duration ?? 30;
+    const date = parsed.date ?? defaults.date;
+
+    if (parsed.recurrence) {
+      this.addHabit(text, duration, parsed.recurrence, parsed.tags);
+    } else if (date) {
+      this.addTodoOnDate(date, parsed.category ?? defaults.category ?? this.categoryService.categoryFor({ urgent: false, important: true, habit: false }), text, duration, parsed.tags);
+    } else {
+      this.addTodo(text, duration, { category: parsed.category ?? defaults.category, tags: parsed.tags });
+    }
+  }
+
+  // Carry Over
+  /**
+   * Moves overdue tasks to today (same category, or the next one with room when it is full)
+   * or back to the backlog, counting each move as a postponement. Tasks that do not fit into
+   * today, or all of them on a day off, go to the backlog, which a toast points out.
+   * Returns how many went there instead of today.
+   */
+  rolloverTasks(items: OverdueTask[], target: 'today' | 'backlog'): number {
+    if (items.length === 0) return 0;
+    const label = `Carry over ${items.length} task${items.length === 1 ? '' : 's'} to ${target}`;
+    const now = new Date();
+    const todayOff = this.capacityService.scheduleFor(now).off;
+    const returnedCount = this.recordChange(label, () => {
+      const todayKey = isoWeekKey(now);
+      const today = this.daysOfWeek[mondayBasedDay(now)];
+      const returned: Todo[] = [];
+
+      this.allWeeks.update(currentWeeks => {
         const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
-        // Ensure the week and day structure exists
-        if(!newWeeks[weekKey]) newWeeks[weekKey] = this.initializeWeek();
-        
-        newWeeks[weekKey][day][category].push(newTodo);
+        if (!newWeeks[todayKey]) newWeeks[todayKey] = this.createWeek(todayKey);
+
+        for (const { todo, location } of items) {
+          const source = newWeeks[location.weekKey]?.[location.day]?.[location.category];
+          if (!source?.some((t: Todo) => t.id === todo.id)) continue;
+          newWeeks[location.weekKey][location.day][location.category] = source.filter((t: Todo) => t.id !== todo.id);
+
+          const postponed: Todo = { ...todo, postponedCount: (todo.postponedCount ?? 0) + 1 };
+          const category = target === 'today' && !todayOff ? this.categoryService.categoryWithRoom(newWeeks[todayKey][today], location.category) : null;
+          if (category) {
+            (newWeeks[todayKey][today][category] ??= []).push(postponed);
+          } else if (todo.sourceId == null) {
+            // Same as dragging back to the pool: habit instances are simply dropped.
+            returned.push({ ...postponed, urgent: false, important: true, returnedCount: (todo.returnedCount ?? 0) + 1 });
+          }
+        }
         return newWeeks;
+      });
+
+      if (returned.length > 0) {
+        this.todoPool.update(pool => [...returned, ...pool]);
+      }
+      return returned.length;
     });
+
+    if (target === 'today' && returnedCount > 0) {
+      const tasks = `${returnedCount} task${returnedCount === 1 ? '' : 's'}`;
+      this.toastService.show(todayOff ? `Today is a day off, so ${tasks} went to the backlog` : `There was no room left today, so ${tasks} went to the backlog`);
+    }
+    return target === 'today' ? returnedCount : 0;
   }
 
-  toggleTodoCompletion(day: string, category: CategoryKey, todoId: number): void {
-    const weekKey = this.currentWeekKey();
-    let wasCompleted = false;
+  dropTasks(items: OverdueTask[]): void {
+    if (items.length === 0) return;
+    this.recordChange(`Drop ${items.length} overdue task${items.length === 1 ? '' : 's'}`, () => {
+      items.forEach(({ todo, location }) => this.deleteTask(todo.id, location));
+    });
+  }
 
-    this.allWeeks.update(currentWeeks => {
-      // FIX: Added type assertion to prevent `JSON.parse` from returning `any`.
-      const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
-      const task = newWeeks[weekKey]?.[day]?.[category]?.find((t: Todo) => t.id === todoId);
-      if (task) {
-        wasCompleted = !task.completed;
-        task.completed = !task.completed;
+  // Habits
+  addHabit(text: string, duration: number | string, recurrence: RecurrenceRule | null, tags: string[] = []): void {
+    this.recordChange(`Add chore "${text.trim()}"`, () => {
+      const id = this.nextId();
+      const habit: Todo = {
+        id,
+        text: text.trim(),
+        completed: false,
+        urgent: false,
+        important: false,
+        duration: Number(duration) || 30,
+        habit: true,
+        sourceId: id,
+        ...(recurrence ? { recurrence } : {}),
+        ...(tags.length ? { tags } : {}),
+      };
+      this.todoPool.update(pool => [...pool, habit]);
+      this.syncHabitInstances(habit.id);
+    });
+  }
+
+  updateHabit(id: number, changes: { text: string; duration: number | string; recurrence: RecurrenceRule | null }): void {
+    this.recordChange(`Edit chore "${changes.text.trim()}"`, () => {
+      this.todoPool.update(pool => pool.map(t => {
+        if (t.id !== id || !t.habit) return t;
+        const { recurrence, ...rest } = t;
+        return {
+          ...rest,
+          text: changes.text.trim(),
+          duration: Number(changes.duration) || 30,
+          ...(changes.recurrence ? { recurrence: changes.recurrence } : {}),
+        };
+      }));
+      this.syncHabitInstances(id);
+    });
+  }
+
+  deleteHabit(id: number): void {
+    this.deleteTask(id, { type: 'pool' });
+  }
+
+  // Categories
+  /**
+   * Removes a category added by the user, but only once no stored day has a task in it: tasks
+   * are never deleted along with their category. Returns whether it was removed.
+   */
+  removeCategory(key: CategoryKey): boolean {
+    const count = Object.values(this.allWeeks())
+      .reduce((sum, week) => sum + this.daysOfWeek.reduce((n, day) => n + (week[day]?.[key]?.length ?? 0), 0), 0);
+    if (count > 0) {
+      this.toastService.show(`Move the ${count} task${count === 1 ? '' : 's'} out of ${this.categoryService.labelOf(key)} first`);
+      return false;
+    }
+    this.recordChange(`Remove category "${this.categoryService.labelOf(key)}"`, () => {
+      this.categoryService.remove(key);
+      this.allWeeks.update(weeks => Object.fromEntries(Object.entries(weeks).map(([weekKey, week]) => [
+        weekKey,
+        Object.fromEntries(Object.entries(week).map(([day, dayTasks]) => [day, Object.fromEntries(Object.entries(dayTasks).filter(([category]) => category !== key))])),
+      ])));
+    });
+    return true;
+  }
+
+  // Trash & Archive
+  deleteTask(todoId: number, location: TaskLocation): void {
+    this.recordChange(`Delete "${this.findTaskText(todoId)}"`, () => {
+      const todo = this.removeTaskAt(location, todoId);
+      if (!todo) return;
+
+      if (todo.sourceId != null && todo.occurrenceDate && !todo.habit) {
+        this.addRecurrenceException(todo.sourceId, todo.occurrenceDate);
       }
-      return newWeeks;
+      if (todo.habit) {
+        this.syncHabitInstances(todo.id);
+      }
+      this.trash.update(trash => [{ todo, origin: location, deletedAt: Date.now() }, ...trash]);
+      if (this.editingTaskId() === todoId) this.cancelEdit();
     });
+  }
+
+  /**
+   * Puts a trashed task back where it was deleted from. If that is no longer possible
+   * (the category has been filled up or removed since), regular tasks go back to the backlog.
+   */
+  restoreFromTrash(todoId: number): void {
+    this.recordChange(`Restore "${this.findTaskText(todoId)}"`, () => {
+      const entry = this.trash().find(item => item.todo.id === todoId);
+      if (!entry) return;
+
+      const { todo, origin } = entry;
+      let target: TaskLocation = origin;
+      if (origin.type === 'week' && todo.sourceId == null && !this.categoryService.hasRoom(origin.category, this.allWeeks()[origin.weekKey]?.[origin.day]?.[origin.category])) {
+        target = { type: 'pool' };
+      }
+
+      this.trash.update(trash => trash.filter(item => item.todo.id !== todoId));
+      this.insertTaskAt(target, target.type === 'pool' && !todo.habit ? { ...todo, urgent: false, important: true } : todo);
+      if (todo.habit) {
+        this.syncHabitInstances(todo.id);
+      }
+    });
+  }
+
+  deleteFromTrash(todoId: number): void {
+    this.recordChange(`Permanently delete "${this.findTaskText(todoId)}"`, () => {
+      this.trash.update(trash => trash.filter(item => item.todo.id !== todoId));
+    });
+  }
+
+  emptyTrash(): void {
+    this.recordChange('Empty trash', () => {
+      this.trash.set([]);
+    });
+  }
+
+  setTrashRetentionDays(days: number): void {
+    this.trashRetentionDays.set(Math.max(0, days));
+    this.storageService.set('planner-trashRetentionDays', this.trashRetentionDays());
+    this.purgeTrash();
+  }
+
+  /**
+   * Moves every completed task of weeks before the current one out of allWeeks and into
+   * the archive. Past weeks left empty are dropped entirely. Returns the number of tasks archived.
+   */
+  archiveCompletedTasks(): number {
+    return this.recordChange('Archive completed tasks', () => {
+      const currentKey = isoWeekKey(new Date());
+      const archivedAt = Date.now();
+      const archived: ArchivedTodo[] = [];
+
+      this.allWeeks.update(currentWeeks => {
+        const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
+        for (const weekKey of Object.keys(newWeeks)) {
+          if (weekKey >= currentKey) continue;
+          const week = newWeeks[weekKey];
+          let remaining = 0;
+          for (const day of this.daysOfWeek) {
+            for (const category of this.categoryService.keys()) {
+              const tasks = week[day]?.[category] ?? [];
+              tasks.filter(t => t.completed).forEach(todo => archived.push({ todo, weekKey, day, category, archivedAt }));
+              if (week[day]) week[day][category] = tasks.filter(t => !t.completed);
+              remaining += week[day]?.[category].length ?? 0;
+            }
+          }
+          if (remaining === 0) delete newWeeks[weekKey];
+        }
+        return archived.length > 0 ? newWeeks : currentWeeks;
+      });
+
+      if (archived.length > 0) {
+        this.archive.update(archive => [...archived, ...archive]);
+      }
+      return archived.length;
+    });
+  }
+
+  toggleTodoCompletion(day: string, category: CategoryKey, todoId: number): void {
+    this.recordChange(`Toggle "${this.findTaskText(todoId)}"`, () => {
+      const weekKey = this.weekKeyFor(day);
+      let wasCompleted = false;
+
+      this.allWeeks.update(currentWeeks => {
+        // FIX: Added type assertion to prevent `JSON.parse` from returning `any`.
+        const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
+        const task = newWeeks[weekKey]?.[day]?.[category]?.find((t: Todo) => t.id === todoId);
+        if (task) {
+          wasCompleted = !task.completed;
+          task.completed = !task.completed;
+        }
+        return newWeeks;
+      });
     
-    if (wasCompleted) {
-      this.audioService.playSuccessSound();
-      this.justCompletedTaskId.set(todoId);
-      setTimeout(() => this.justCompletedTaskId.set(null), 1000);
-    }
+      if (wasCompleted) this.celebrateCompletion(todoId);
+    });
+  }
+
+  /** Completes a task in the grid wherever it is, e.g. when its focus session ends. */
+  completeTask(todoId: number): void {
+    const found = this.findTask(t => t.id === todoId);
+    if (!found || found.location.type !== 'week' || found.todo.completed) return;
+    this.recordChange(`Complete "${found.todo.text}"`, () => {
+      this.updateTaskAt(found.location, todoId, todo => {
+        todo.completed = true;
+      });
+      this.celebrateCompletion(todoId);
+    });
+  }
+
+  /**
+   * Adds a focus session to the task, wherever it has been moved in the meantime. Not recorded
+   * in the undo history: sessions also end on their own, which is nothing the user would undo.
+   */
+  logTime(todoId: number, log: TimeLog): void {
+    const found = this.findTask(t => t.id === todoId);
+    if (!found) return;
+    const before = this.captureState();
+    this.updateTaskAt(found.location, todoId, todo => {
+      todo.timeLogs = [...(todo.timeLogs ?? []), log];
+    });
+    this.touchChangedTasks(before);
   }
 
   // Editing
@@ -228,6 +673,9 @@ export class TaskService {
     this.editingTaskId.set(todo.id);
     this.editingTaskText.set(todo.text);
     this.editingTaskDuration.set(todo.duration);
+    this.editingTaskTags.set(formatTagList(todo.tags));
+    this.editingTaskProject.set(todo.project ?? '');
+    this.editingTaskReminder.set(todo.reminder ?? null);
   }
 
   cancelEdit(): void {
@@ -235,46 +683,129 @@ export class TaskService {
   }
 
   saveEdit(): void {
-    const id = this.editingTaskId();
-    if (id === null) return;
+    this.recordChange(`Edit "${this.findTaskText(this.editingTaskId())}"`, () => {
+      const id = this.editingTaskId();
+      if (id === null) return;
 
-    const newText = this.editingTaskText();
-    const newDuration = Number(this.editingTaskDuration()) || 0;
-    const weekKey = this.currentWeekKey();
-    let foundInWeek = false;
+      const newText = this.editingTaskText();
+      const newDuration = Number(this.editingTaskDuration()) || 0;
+      const labels = this.editLabels();
+      const weekKeys = this.dayWeekKeys();
+      let foundInWeek = false;
 
-    this.allWeeks.update(currentWeeks => {
-      // FIX: Added type assertion to prevent `JSON.parse` from returning `any`.
-      const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
-      const weekToUpdate = newWeeks[weekKey];
+      this.allWeeks.update(currentWeeks => {
+        // FIX: Added type assertion to prevent `JSON.parse` from returning `any`.
+        const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
 
-      // FIX: Add guards to prevent accessing properties on undefined, which could corrupt state and cause misleading errors.
-      if (weekToUpdate) {
+        // FIX: Add guards to prevent accessing properties on undefined, which could corrupt state and cause misleading errors.
         for (const day of this.daysOfWeek) {
-          const dayToUpdate = weekToUpdate[day];
-          if (dayToUpdate) {
-            for (const cat of Object.keys(dayToUpdate)) {
-              const category = cat as CategoryKey;
-              const task = dayToUpdate[category]?.find((t: Todo) => t.id === id);
-              if (task) {
-                task.text = newText;
-                task.duration = newDuration;
-                foundInWeek = true;
-                return newWeeks;
+          const weekToUpdate = newWeeks[weekKeys[day]];
+          if (weekToUpdate) {
+            const dayToUpdate = weekToUpdate[day];
+            if (dayToUpdate) {
+              for (const cat of Object.keys(dayToUpdate)) {
+                const category = cat as CategoryKey;
+                const task = dayToUpdate[category]?.find((t: Todo) => t.id === id);
+                if (task) {
+                  task.text = newText;
+                  task.duration = newDuration;
+                  Object.assign(task, labels);
+                  foundInWeek = true;
+                  return newWeeks;
+                }
               }
             }
           }
         }
+        return currentWeeks;
+      });
+
+      if (!foundInWeek) {
+        this.todoPool.update(pool =>
+          pool.map(t => (t.id === id ? { ...t, text: newText, duration: newDuration, ...labels } : t))
+        );
       }
-      return currentWeeks;
+      this.cancelEdit();
     });
+  }
 
-    if (!foundInWeek) {
-      this.todoPool.update(pool =>
-        pool.map(t => (t.id === id ? { ...t, text: newText, duration: newDuration } : t))
-      );
-    }
-    this.cancelEdit();
+  // Subtasks
+  toggleChecklist(todoId: number): void {
+    this.openChecklistId.update(id => (id === todoId ? null : todoId));
+  }
+
+  setAutoCompleteFromSubtasks(enabled: boolean): void {
+    this.autoCompleteFromSubtasks.set(enabled);
+    this.storageService.set('planner-autoCompleteFromSubtasks', enabled);
+  }
+
+  addSubtask(location: TaskLocation, todoId: number, text: string, duration: number | string): void {
+    if (!text.trim()) return;
+    this.recordChange(`Add step to "${this.findTaskText(todoId)}"`, () => {
+      const subtask: Subtask = { id: this.nextId(), text: text.trim(), completed: false, duration: Math.max(0, Number(duration) || 0) };
+      this.updateTaskAt(location, todoId, todo => {
+        todo.subtasks = [...(todo.subtasks ?? []), subtask];
+      });
+    });
+  }
+
+  updateSubtask(location: TaskLocation, todoId: number, subtaskId: number, changes: { text?: string; duration?: number | string }): void {
+    this.recordChange(`Edit step of "${this.findTaskText(todoId)}"`, () => {
+      this.updateTaskAt(location, todoId, todo => {
+        const subtask = todo.subtasks?.find(s => s.id === subtaskId);
+        if (!subtask) return;
+        if (changes.text !== undefined && changes.text.trim()) subtask.text = changes.text.trim();
+        if (changes.duration !== undefined) subtask.duration = Math.max(0, Number(changes.duration) || 0);
+      });
+    });
+  }
+
+  deleteSubtask(location: TaskLocation, todoId: number, subtaskId: number): void {
+    this.recordChange(`Delete step of "${this.findTaskText(todoId)}"`, () => {
+      this.updateTaskAt(location, todoId, todo => {
+        const subtasks = (todo.subtasks ?? []).filter(s => s.id !== subtaskId);
+        if (subtasks.length > 0) todo.subtasks = subtasks;
+        else delete todo.subtasks;
+      });
+    });
+  }
+
+  /**
+   * Checks a subtask off or on again. With autoCompleteFromSubtasks, checking off the last open
+   * step of a task in the grid completes the task too, just like its own checkbox would.
+   */
+  toggleSubtask(location: TaskLocation, todoId: number, subtaskId: number): void {
+    this.recordChange(`Toggle step of "${this.findTaskText(todoId)}"`, () => {
+      let completedParent = false;
+      this.updateTaskAt(location, todoId, todo => {
+        const subtask = todo.subtasks?.find(s => s.id === subtaskId);
+        if (!subtask) return;
+        subtask.completed = !subtask.completed;
+        if (location.type === 'week' && this.autoCompleteFromSubtasks() && !todo.completed && todo.subtasks!.every(s => s.completed)) {
+          todo.completed = true;
+          completedParent = true;
+        }
+      });
+
+      if (completedParent) this.celebrateCompletion(todoId);
+    });
+  }
+
+  // Filtering
+  setFilter(filter: TaskFilter): void {
+    this.taskFilter.set(filter);
+  }
+
+  toggleFilterTag(tag: string): void {
+    this.taskFilter.update(filter => ({
+      ...filter,
+      tags: filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag],
+    }));
+  }
+
+  /** False for tasks the filter bar hides; the grid dims them. */
+  matchesFilter(todo: Todo): boolean {
+    return matchesFilter(todo, this.taskFilter());
   }
 
   // Drag and Drop Handlers
@@ -295,54 +826,418 @@ export class TaskService {
 
   onDrop(day: string, category: CategoryKey): void {
     const data = this.draggedTaskInfo();
-    if (!data) return;
+    if (data) this.moveTask(data, day, category);
+  }
+
+  /** Moves a task into a day/category slot by the same rules as a drop. Returns false if it was rejected. */
+  moveTask(data: NonNullable<DraggedTaskInfo>, day: string, category: CategoryKey): boolean {
+    if (this.rejectIfDayOff(day)) return false;
+    return this.recordChange(`Move "${data.todo.text}" to ${this.formatDay(day)}`, () => this.placeTask(data, day, category));
+  }
+
+  // Week Lookup
+  /** Every stored week with the dates of its days, oldest first. */
+  storedWeeks = computed<DatedWeek[]>(() =>
+    Object.entries(this.allWeeks())
+      .map(([weekKey, week]) => ({ weekKey, dates: weekKeyDates(weekKey), week }))
+      .filter((entry): entry is DatedWeek & { dates: Date[] } => entry.dates !== null)
+      .sort((a, b) => a.dates[0].getTime() - b.dates[0].getTime())
+  );
+
+  /** The `count` stored weeks up to and including the one shown at `weekOffset`, whether or not they hold any tasks. */
+  getWeeksEndingAt(weekOffset: number, count: number): DatedWeek[] {
+    return Array.from({ length: count }, (_, i) => {
+      const weekKey = isoWeekKey(addDays(this.getDisplayedWeekDates(weekOffset - count + 1 + i)[0], 3));
+      return { weekKey, dates: weekKeyDates(weekKey)!, week: this.allWeeks()[weekKey] };
+    });
+  }
+
+  // Availability
+  isDayOff(day: string): boolean {
+    return this.daySchedules()[day]?.off ?? false;
+  }
+
+  /** Load and goal of any date, for overviews that reach beyond the displayed week. */
+  getDayOverview(date: Date): { total: number; capacity: number; percentage: number; color: string; off: boolean; goal: Todo | null } {
+    const dayTasks = this.allWeeks()[isoWeekKey(date)]?.[this.daysOfWeek[mondayBasedDay(date)]];
+    const total = this.categoryService.keys().flatMap(category => dayTasks?.[category] ?? []).reduce((sum: number, task: Todo) => sum + taskDuration(task), 0);
+    const schedule = this.capacityService.scheduleFor(date);
+    const capacity = schedule.off ? 0 : schedule.capacity;
+    const percentage = capacity > 0 ? Math.min((total / capacity) * 100, 100) : (total > 0 ? 100 : 0);
+    return { total, capacity, percentage, color: this.getLoadColor(total, capacity), off: schedule.off, goal: dayTasks?.goal?.[0] ?? null };
+  }
+
+  // Timeline
+  setDayView(view: DayView): void {
+    this.dayView.set(view);
+    this.storageService.set('planner-dayView', view);
+  }
+
+  /** Sets or clears (null) the start time of a task in the current week. */
+  setStartTime(day: string, category: CategoryKey, todoId: number, startTime: number | null): void {
+    const text = this.findTaskText(todoId);
+    const label = startTime === null ? `Clear time of "${text}"` : `Schedule "${text}" at ${formatClock(startTime)}`;
+    this.recordChange(label, () => {
+      const weekKey = this.weekKeyFor(day);
+      this.allWeeks.update(currentWeeks => {
+        const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
+        const task = newWeeks[weekKey]?.[day]?.[category]?.find((t: Todo) => t.id === todoId);
+        if (task) {
+          if (startTime === null) delete task.startTime;
+          else task.startTime = startTime;
+        }
+        return newWeeks;
+      });
+    });
+  }
+
+  /**
+   * Drop onto a day's timeline. A task from the same day keeps its category and only gets
+   * the new time; anything else is placed like a slot drop, into the category that fits it.
+   */
+  onTimelineDrop(day: string, startTime: number): void {
+    const data = this.draggedTaskInfo();
+    if (!data || this.rejectIfDayOff(day)) return;
+    if (data.source === 'week' && data.weekKey === this.weekKeyFor(day) && data.day === day) {
+      this.setStartTime(day, data.category, data.todo.id, startTime);
+      return;
+    }
+    this.recordChange(`Move "${data.todo.text}" to ${this.formatDay(day)} ${formatClock(startTime)}`, () => {
+      const wanted = data.source === 'week' ? data.category : this.categoryService.categoryFor(data.todo);
+      const category = this.categoryService.categoryWithRoom(this.week()[day], wanted, data.todo.id);
+      if (category) this.placeTask({ ...data, todo: { ...data.todo, startTime } }, day, category);
+    });
+  }
+
+  /** Gives the open, untimed tasks of a day a start time in the free gaps. Returns how many were placed. */
+  packDay(day: string): number {
+    return this.recordChange(`Pack ${this.formatDay(day)}`, () => {
+      const weekKey = this.weekKeyFor(day);
+      const dayTasks = this.week()[day];
+      const isToday = this.weekOffset() === 0 && this.visibleDays().indexOf(day) === this.currentDayIndex();
+      const now = new Date();
+      const schedule = this.daySchedules()[day];
+      const { placed } = packDay(this.categoryService.keys().flatMap(category => dayTasks[category] ?? []), {
+        dayStart: schedule.workStart,
+        dayEnd: schedule.workEnd,
+        notBefore: isToday ? now.getHours() * 60 + now.getMinutes() : undefined,
+      });
+      if (placed.length === 0) return 0;
+
+      const startTimes = new Map(placed.map(p => [p.id, p.startTime]));
+      this.allWeeks.update(currentWeeks => {
+        const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
+        for (const category of this.categoryService.keys()) {
+          for (const task of newWeeks[weekKey][day][category] ?? []) {
+            if (startTimes.has(task.id)) task.startTime = startTimes.get(task.id);
+          }
+        }
+        return newWeeks;
+      });
+      return placed.length;
+    });
+  }
+
+  // Scheduling Plans
+  applySchedulingPlan(plan: SchedulingPlanItem[]): number {
+    return this.recordChange('Apply week plan', () => {
+      let applied = 0;
+      for (const item of plan) {
+        const todo = this.todoPool().find(t => t.id === item.id && !t.habit);
+        if (todo && this.placeTask({ source: 'pool', todo }, item.day, item.category)) {
+          applied++;
+        }
+      }
+      return applied;
+    });
+  }
+
+  setBacklogView(view: BacklogView): void {
+    this.backlogView.set(view);
+    this.storageService.set('planner-backlogView', view);
+  }
+
+  onPoolDrop(): void {
+    const data = this.draggedTaskInfo();
+    if (data?.source === 'week') this.returnToBacklog(data);
+  }
+
+  /** A drop on a quadrant of the backlog matrix: backlog tasks get its flags, tasks from the grid return to the backlog with them. */
+  onQuadrantDrop(flags: Pick<Todo, 'urgent' | 'important'>): void {
+    const data = this.draggedTaskInfo();
+    if (data?.source === 'pool') this.setPriorityFlags(data.todo.id, flags);
+    else if (data?.source === 'week') this.returnToBacklog(data, flags);
+  }
+
+  /** Sets the urgent/important flags of a backlog task. */
+  setPriorityFlags(todoId: number, flags: Pick<Todo, 'urgent' | 'important'>): void {
+    const todo = this.todoPool().find(t => t.id === todoId && !t.habit);
+    if (!todo || (todo.urgent === flags.urgent && todo.important === flags.important)) return;
+    this.recordChange(`Mark "${todo.text}" as ${getTaskPriority({ ...flags, habit: false })}`, () => {
+      this.todoPool.update(pool => pool.map(t => t.id === todoId ? { ...t, ...flags } : t));
+    });
+  }
 
+  returnToBacklog(data: Extract<DraggedTaskInfo, { source: 'week' }>, flags: Pick<Todo, 'urgent' | 'important'> = { urgent: false, important: true }): void {
+    this.recordChange(`Return "${data.todo.text}" to backlog`, () => {
+      const { todo, day, category, weekKey } = data;
+
+      // 1. Always remove the task from the week grid.
+      this.allWeeks.update(currentWeeks => {
+        // FIX: Added type assertion to prevent `JSON.parse` from returning `any`.
+        const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
+        if (newWeeks[weekKey]?.[day]?.[category]) {
+          newWeeks[weekKey][day][category] = newWeeks[weekKey][day][category].filter((t: Todo) => t.id !== todo.id);
+        }
+        return newWeeks;
+      });
+
+      // 2. Only return regular tasks (non-instantiated habits) to the pool.
+      // Instantiated habits are simply removed (deleted) when dragged back.
+      if (todo.sourceId != null && todo.occurrenceDate) {
+        // Remember the removal so the occurrence is not generated again.
+        this.addRecurrenceException(todo.sourceId, todo.occurrenceDate);
+      }
+      if (todo.sourceId == null) {
+        // Reset task to its default "category-less" state (or the quadrant it was dropped on) before returning
+        const resetTodo = { ...todo, ...flags, returnedCount: (todo.returnedCount ?? 0) + 1 };
+        this.todoPool.update(pool => [resetTodo, ...pool]);
+      }
+    });
+  }
+
+  // History
+  undo(): void {
+    const label = this.historyService.undo();
+    this.toastService.show(label ? `Undone: ${label}` : 'Nothing to undo');
+  }
+
+  redo(): void {
+    const label = this.historyService.redo();
+    this.toastService.show(label ? `Redone: ${label}` : 'Nothing to redo');
+  }
+
+  // Data Management
+  exportData(): void {
+    const data = createBackup(this.allWeeks(), this.todoPool());
+    this.downloadFile(JSON.stringify(data, null, 2), 'application/json', `planner_backup_${new Date().toISOString().split('T')[0]}.json`);
+  }
+
+  /** Replaces the weeks and backlog with the outcome of a backup import, as one undoable step. */
+  applyImport(plan: ImportPlan): void {
+    this.recordChange('Import backup', () => {
+      this.allWeeks.set(plan.allWeeks);
+      this.todoPool.set(plan.todoPool);
+      this.ensureDisplayedWeeks();
+    });
+  }
+
+  /** Exports every task scheduled in the grid as all-day events (or to-dos) on its day. */
+  exportCalendar(component: ICalComponent = 'VEVENT'): void {
+    const entries: ICalExportEntry[] = [];
+    for (const [weekKey, week] of Object.entries(this.allWeeks())) {
+      const dates = weekKeyDates(weekKey);
+      if (!dates) continue;
+      this.daysOfWeek.forEach((day, i) => {
+        for (const category of this.categoryService.keys()) {
+          for (const todo of week[day]?.[category] ?? []) {
+            entries.push({
+              uid: todo.calendarUid ?? taskUid(todo.id),
+              summary: todo.text,
+              date: dates[i],
+              startTime: todo.startTime,
+              durationMinutes: taskDuration(todo),
+              categories: [this.categoryService.labelOf(category).toUpperCase()],
+              completed: todo.completed,
+            });
+          }
+        }
+      });
+    }
+    entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+    this.downloadFile(buildICalendar(entries, component), 'text/calendar', `planner_calendar_${new Date().toISOString().split('T')[0]}.ics`);
+  }
+
+  /**
+   * Imports events from an .ics file. Dated events land on their day (in the category their
+   * CATEGORIES name by key or label, focus otherwise), undated ones in the backlog. Entries
+   * whose UID matches a known task update and move that task instead of creating a duplicate.
+   */
+  importCalendar(file: File): void {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const entries = parseICalendar(e.target?.result as string).filter(entry => entry.summary);
+      if (entries.length === 0) {
+        this.toastService.show('No events found in calendar file');
+        return;
+      }
+      const { added, updated } = this.recordChange('Import calendar', () => this.importCalendarEntries(entries));
+      this.toastService.show(`Calendar imported: ${added} added, ${updated} updated`);
+    };
+    reader.readAsText(file);
+  }
+
+  // Sync
+  /**
+   * Applies task changes pulled from the sync server: each record replaces, moves or deletes
+   * the local task with its ID. Not recorded in the undo history. Returns the IDs of habit
+   * instances removed as duplicates (see below), which the caller should sync as deletions.
+   */
+  applySyncedTasks(records: SyncRecord[]): number[] {
+    if (records.length === 0) return [];
+    const weeks = JSON.parse(JSON.stringify(this.allWeeks())) as { [weekKey: string]: Week };
+    let pool = [...this.todoPool()];
+    const index = indexTasks(weeks, pool, this.daysOfWeek);
+
+    for (const record of records) {
+      const existing = index.get(record.id);
+      if (existing?.location.type === 'week') {
+        const { weekKey, day, category } = existing.location;
+        weeks[weekKey][day][category] = weeks[weekKey][day][category].filter((t: Todo) => t.id !== record.id);
+      } else if (existing) {
+        pool = pool.filter(t => t.id !== record.id);
+      }
+      if (record.deleted || !record.todo || !record.location) continue;
+      if (record.location.type === 'week') {
+        const { weekKey, day, category } = record.location;
+        weeks[weekKey] ??= this.initializeWeek();
+        (weeks[weekKey][day][category] ??= []).push(record.todo);
+      } else {
+        pool = record.todo.habit ? [...pool, record.todo] : [record.todo, ...pool];
+      }
+    }
+
+    // Two devices can each generate an instance of the same habit occurrence; keep the oldest.
+    const removed: number[] = [];
+    const instances = [...indexTasks(weeks, [], this.daysOfWeek).values()]
+      .filter(entry => entry.todo.sourceId != null && entry.todo.occurrenceDate && entry.location.type === 'week')
+      .sort((a, b) => a.todo.id - b.todo.id);
+    const seen = new Set<string>();
+    for (const { todo, location } of instances) {
+      const occurrence = `${todo.sourceId}:${todo.occurrenceDate}`;
+      if (!seen.has(occurrence)) {
+        seen.add(occurrence);
+      } else if (location.type === 'week') {
+        weeks[location.weekKey][location.day][location.category] = weeks[location.weekKey][location.day][location.category].filter((t: Todo) => t.id !== todo.id);
+        removed.push(todo.id);
+      }
+    }
+
+    this.allWeeks.set(weeks);
+    this.todoPool.set(pool);
+    this.ensureDisplayedWeeks();
+    return removed;
+  }
+
+  // --- Private Helper Methods ---
+
+  private downloadFile(content: string, type: string, filename: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private importCalendarEntries(entries: ICalImportEntry[]): { added: number; updated: number } {
+    let added = 0;
+    let updated = 0;
+
+    for (const entry of entries) {
+      const existing = this.findCalendarTask(entry.uid);
+      const named = this.categoryService.categories()
+        .find(c => entry.categories.some(name => [c.key, c.label.toLowerCase()].includes(name.toLowerCase())))?.key;
+      const previousCategory = existing?.location.type === 'week' ? existing.location.category : undefined;
+
+      let target: TaskLocation = existing?.location ?? { type: 'pool' };
+      if (entry.date) {
+        const weekKey = isoWeekKey(entry.date);
+        if (!this.allWeeks()[weekKey]) {
+          this.allWeeks.update(weeks => ({ ...weeks, [weekKey]: this.createWeek(weekKey) }));
+        }
+        const day = this.daysOfWeek[mondayBasedDay(entry.date)];
+        const wanted = named ?? previousCategory ?? this.categoryService.categoryFor({ urgent: false, important: true, habit: false });
+        const category = this.categoryService.categoryWithRoom(this.allWeeks()[weekKey][day], wanted, existing?.todo.id);
+        target = category ? { type: 'week', weekKey, day, category } : { type: 'pool' };
+      }
+
+      const todo: Todo = existing
+        ? { ...existing.todo }
+        : { id: this.nextId(), text: '', completed: false, urgent: false, important: false, duration: 30, habit: false };
+      todo.text = entry.summary;
+      todo.completed = entry.completed;
+      if (entry.durationMinutes) todo.duration = entry.durationMinutes;
+      if (entry.startTime !== null) todo.startTime = entry.startTime;
+      if (entry.uid && parseTaskUid(entry.uid) === null) todo.calendarUid = entry.uid;
+      const category = target.type === 'week' ? target.category : named;
+      if (category && category !== previousCategory && !todo.habit) this.categoryService.applyFlags(todo, category);
+
+      if (existing) {
+        this.removeTaskAt(existing.location, todo.id);
+        updated++;
+      } else {
+        added++;
+      }
+      this.insertTaskAt(target, todo);
+    }
+    return { added, updated };
+  }
+
+  /** Finds the task a calendar UID refers to, whether it was exported from here or imported earlier. */
+  private findCalendarTask(uid: string | null): { todo: Todo; location: TaskLocation } | null {
+    if (!uid) return null;
+    const todoId = parseTaskUid(uid);
+    return this.findTask(t => todoId !== null ? t.id === todoId : t.calendarUid === uid);
+  }
+
+  /** The first task in any stored week or the backlog (habits excluded) that `matches`. */
+  private findTask(matches: (todo: Todo) => boolean): { todo: Todo; location: TaskLocation } | null {
+    for (const [weekKey, week] of Object.entries(this.allWeeks())) {
+      for (const day of this.daysOfWeek) {
+        for (const category of this.categoryService.keys()) {
+          const todo = week[day]?.[category]?.find(matches);
+          if (todo) return { todo, location: { type: 'week', weekKey, day, category } };
+        }
+      }
+    }
+    const pooled = this.todoPool().find(t => !t.habit && matches(t));
+    return pooled ? { todo: pooled, location: { type: 'pool' } } : null;
+  }
+
+  /**
+   * Moves a task from the pool or the week grid into a day/category slot.
+   * Shared by drag and drop and by scheduling plans so both follow the same rules.
+   * Returns false if the move was rejected (e.g. the category is at its limit).
+   */
+  private placeTask(data: NonNullable<DraggedTaskInfo>, day: string, category: CategoryKey): boolean {
     const todoToDrop = { ...data.todo, completed: false };
-    const targetWeekKey = this.currentWeekKey();
+    const targetWeekKey = this.weekKeyFor(day);
 
     // Dynamically assign category properties if dragged from the pool
     if (data.source === 'pool') {
-      switch(category) {
-        case 'goal': 
-          todoToDrop.urgent = true; 
-          todoToDrop.important = true; 
-          break;
-        case 'focus': 
-          todoToDrop.urgent = false; 
-          todoToDrop.important = true; 
-          break;
-        case 'work': 
-          todoToDrop.urgent = true; 
-          todoToDrop.important = false; 
-          break;
-        case 'leisure':
-        case 'basics': // Should not happen for pool tasks, but handle defensively
-          todoToDrop.urgent = false; 
-          todoToDrop.important = false; 
-          break;
-      }
+      this.categoryService.applyFlags(todoToDrop, category);
     }
     
     // Perform validation before any state updates
-    if (category === 'goal') {
-        const goalIsOccupied = this.week()[day].goal.length > 0;
-        const isMovingFromSameGoalSlot = data.source === 'week' && data.day === day && data.category === 'goal';
-        if (goalIsOccupied && !isMovingFromSameGoalSlot) {
-            return; // Goal slot is occupied, abort.
-        }
+    if (this.isDayOff(day)) return false;
+    const isMovingWithinSlot = data.source === 'week' && data.weekKey === targetWeekKey && data.day === day && data.category === category;
+    if (!this.categoryService.hasRoom(category, this.week()[day][category], isMovingWithinSlot ? todoToDrop.id : undefined)) {
+        return false; // The category is at its limit, abort.
     }
 
     // Handle habit instantiation as a special case
     if (todoToDrop.habit && data.source === 'pool') {
-      const newInstance = { ...todoToDrop, id: Date.now(), sourceId: todoToDrop.id };
+      const newInstance = this.createHabitInstance(todoToDrop);
       this.allWeeks.update(currentWeeks => {
         // FIX: Added type assertion to prevent `JSON.parse` from returning `any`.
         const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
-        newWeeks[targetWeekKey][day][category].push(newInstance);
+        (newWeeks[targetWeekKey][day][category] ??= []).push(newInstance);
         return newWeeks;
       });
       // Do not remove the original from the pool
-      return;
+      return true;
     }
 
     // Perform the main atomic update on the week
@@ -356,7 +1251,7 @@ export class TaskService {
         }
 
         // 2. Add to destination
-        newWeeks[targetWeekKey][day][category].push(todoToDrop);
+        (newWeeks[targetWeekKey][day][category] ??= []).push(todoToDrop);
         
         return newWeeks;
     });
@@ -365,70 +1260,396 @@ export class TaskService {
     if (data.source === 'pool') {
         this.todoPool.update(pool => pool.filter(t => t.id !== todoToDrop.id));
     }
+    return true;
   }
 
-  onPoolDrop(): void {
-    const data = this.draggedTaskInfo();
-    if (!data || data.source !== 'week') return;
+  private rejectIfDayOff(day: string): boolean {
+    if (!this.isDayOff(day)) return false;
+    this.toastService.show(`${this.formatDay(day)} is marked as a day off`);
+    return true;
+  }
 
-    const { todo, day, category, weekKey } = data;
+  /**
+   * Runs a mutation as a single undoable step. Nested calls (e.g. a scheduling plan
+   * placing several tasks) are folded into the outermost step.
+   */
+  private recordChange<T>(label: string, mutate: () => T): T {
+    if (this.isRecordingChange) return mutate();
 
-    // 1. Always remove the task from the week grid.
+    const before = this.captureState();
+    const categoriesBefore = this.categoryService.categories();
+    this.isRecordingChange = true;
+    let result: T;
+    try {
+      result = mutate();
+      this.touchChangedTasks(before);
+    } finally {
+      this.isRecordingChange = false;
+    }
+
+    let change = this.diffStates(before, this.captureState());
+    const categoriesAfter = this.categoryService.categories();
+    if (categoriesAfter !== categoriesBefore) {
+      change = { ...(change ?? { weeks: {}, lists: {} }), categories: { before: categoriesBefore, after: categoriesAfter } };
+    }
+    if (change) {
+      this.historyService.record({
+        label,
+        undo: () => this.applyStateChange(change, 'before'),
+        redo: () => this.applyStateChange(change, 'after'),
+      });
+    }
+    return result;
+  }
+
+  private captureState(): StateSnapshot {
+    return { allWeeks: this.allWeeks(), todoPool: this.todoPool(), trash: this.trash(), archive: this.archive() };
+  }
+
+  private diffStates(before: StateSnapshot, after: StateSnapshot): StateChange | null {
+    const change: StateChange = { weeks: {}, lists: {} };
+    let changed = false;
+
+    // Weeks are deep-cloned on every update, so compare contents rather than references.
+    for (const weekKey of new Set([...Object.keys(before.allWeeks), ...Object.keys(after.allWeeks)])) {
+      const prev = before.allWeeks[weekKey];
+      const next = after.allWeeks[weekKey];
+      if (prev === next || JSON.stringify(prev) === JSON.stringify(next)) continue;
+      change.weeks[weekKey] = { before: prev, after: next };
+      changed = true;
+    }
+    // The lists are replaced, never mutated, so a new reference means a change.
+    if (before.todoPool !== after.todoPool) change.lists.todoPool = { before: before.todoPool, after: after.todoPool };
+    if (before.trash !== after.trash) change.lists.trash = { before: before.trash, after: after.trash };
+    if (before.archive !== after.archive) change.lists.archive = { before: before.archive, after: after.archive };
+    return changed || Object.keys(change.lists).length > 0 ? change : null;
+  }
+
+  private applyStateChange(change: StateChange, side: 'before' | 'after'): void {
+    this.cancelEdit();
+    const before = this.captureState();
+    if (change.categories) this.categoryService.restore(change.categories[side]);
+    this.allWeeks.update(weeks => {
+      const next = { ...weeks };
+      for (const [weekKey, versions] of Object.entries(change.weeks)) {
+        const week = versions[side];
+        if (week) next[weekKey] = week;
+        else delete next[weekKey];
+      }
+      // Never leave the visible week without a backing entry.
+      for (const weekKey of Object.values(this.dayWeekKeys())) {
+        if (!next[weekKey]) next[weekKey] = this.initializeWeek();
+      }
+      return next;
+    });
+    if (change.lists.todoPool) this.todoPool.set(change.lists.todoPool[side]);
+    if (change.lists.trash) this.trash.set(change.lists.trash[side]);
+    if (change.lists.archive) this.archive.set(change.lists.archive[side]);
+    // Undo and redo are new edits as far as sync is concerned.
+    this.touchChangedTasks(before);
+  }
+
+  /** Stamps `updatedAt` on every task that was added, edited or moved since `before`. */
+  private touchChangedTasks(before: StateSnapshot): void {
+    const change = this.diffStates(before, this.captureState());
+    if (!change || (Object.keys(change.weeks).length === 0 && !change.lists.todoPool)) return;
+
+    const previous = indexTasks(before.allWeeks, before.todoPool, this.daysOfWeek);
+    const now = Date.now();
+    const touch = (todo: Todo, location: TaskLocation): Todo => {
+      const old = previous.get(todo.id);
+      return old && taskFingerprint(old) === taskFingerprint({ todo, location }) ? todo : { ...todo, updatedAt: now };
+    };
+
+    const changedWeekKeys = Object.keys(change.weeks).filter(weekKey => this.allWeeks()[weekKey]);
+    if (changedWeekKeys.length > 0) {
+      this.allWeeks.update(weeks => {
+        const next = { ...weeks };
+        for (const weekKey of changedWeekKeys) {
+          next[weekKey] = Object.fromEntries(this.daysOfWeek.map(day => [day, Object.fromEntries(this.categoryService.keys().map(category =>
+            [category, (weeks[weekKey][day]?.[category] ?? []).map(todo => touch(todo, { type: 'week', weekKey, day, category }))]
+          ))])) as Week;
+        }
+        return next;
+      });
+    }
+    if (change.lists.todoPool) {
+      this.todoPool.update(pool => pool.map(todo => touch(todo, { type: 'pool' })));
+    }
+  }
+
+  /** Tags, project and reminder from the edit fields; empty ones are left as undefined so JSON drops them. */
+  private editLabels(): Pick<Todo, 'tags' | 'project' | 'reminder'> {
+    const tags = parseTagList(this.editingTaskTags());
+    const project = this.editingTaskProject().trim();
+    return { tags: tags.length ? tags : undefined, project: project || undefined, reminder: this.editingTaskReminder() ?? undefined };
+  }
+
+  private celebrateCompletion(todoId: number): void {
+    this.audioService.playSuccessSound();
+    this.justCompletedTaskId.set(todoId);
+    setTimeout(() => this.justCompletedTaskId.set(null), 1000);
+  }
+
+  private forEachStoredTask(visit: (todo: Todo) => void): void {
+    for (const week of Object.values(this.allWeeks())) {
+      for (const day of this.daysOfWeek) this.categoryService.keys().forEach(category => week[day]?.[category]?.forEach(visit));
+    }
+    this.todoPool().forEach(visit);
+  }
+
+  private findTaskText(todoId: number | null): string {
+    if (todoId === null) return '';
+    const inWeeks = (Object.values(this.allWeeks()).flatMap(week => Object.values(week).flatMap(day => Object.values(day))) as Todo[][]).flat();
+    const all = [...inWeeks, ...this.todoPool(), ...this.trash().map(item => item.todo)];
+    return all.find(t => t.id === todoId)?.text ?? '';
+  }
+
+  private formatDay(day: string): string {
+    return day.charAt(0) + day.slice(1).toLowerCase();
+  }
+
+  private nextId(): number {
+    // Date.now() alone collides when several tasks are created in the same tick (e.g. habit instances).
+    this.lastIssuedId = Math.max(Date.now(), this.lastIssuedId + 1);
+    return this.lastIssuedId;
+  }
+
+  private createWeek(weekKey: string): Week {
+    const week = this.initializeWeek();
+    // Only upcoming days get habit instances, so re-opening an archived past week stays empty.
+    this.placeRecurringHabits(week, weekKeyDates(weekKey) ?? [], this.habits(), startOfDay(new Date()));
+    return week;
+  }
+
+  /** Creates the stored weeks the displayed days belong to (two when the week does not start on Monday). */
+  private ensureDisplayedWeeks(): void {
+    const missing = [...new Set(Object.values(this.dayWeekKeys()))].filter(weekKey => !this.allWeeks()[weekKey]);
+    if (missing.length === 0) return;
+    this.allWeeks.update(weeks => ({ ...weeks, ...Object.fromEntries(missing.map(weekKey => [weekKey, this.createWeek(weekKey)])) }));
+  }
+
+  /**
+   * One-time move of weeks stored under the old, non-ISO week keys. Trash and archive entries
+   * remember where their task came from, so their keys move along.
+   */
+  private migrateWeekKeys(): void {
+    const { weeks, renamed } = migrateLegacyWeekKeys(this.allWeeks(), this.daysOfWeek);
+    if (Object.keys(renamed).length === 0) {
+      this.storageService.set('planner-weekKeyFormat', 'iso');
+      return;
+    }
+    this.allWeeks.set(weeks);
+    this.trash.update(trash => trash.map(item =>
+      item.origin.type === 'week' && renamed[item.origin.weekKey] ? { ...item, origin: { ...item.origin, weekKey: renamed[item.origin.weekKey] } } : item
+    ));
+    this.archive.update(archive => archive.map(item => renamed[item.weekKey] ? { ...item, weekKey: renamed[item.weekKey] } : item));
+    // Saved right away rather than by the debounced auto-save, so the flag never gets ahead of the data.
+    this.persist(this.captureState()).then(saved => {
+      if (saved) this.storageService.set('planner-weekKeyFormat', 'iso');
+    });
+  }
+
+  /** Takes over the loaded data (or the starter tasks on first use) and runs the data migrations. */
+  private hydrate(state: PlannerState | null): void {
+    this.allWeeks.set(state?.allWeeks ?? {});
+    this.todoPool.set(state?.todoPool ?? this.getInitialTodoPool());
+    this.trash.set(state?.trash ?? []);
+    this.archive.set(state?.archive ?? []);
+
+    // Data Migration: Ensure new category keys exist for existing data (legacy chore/core/offTime -> basics/work/leisure)
+    this.allWeeks.update(weeks => {
+      // FIX: Added type assertion to prevent `JSON.parse` from returning `any` and polluting the signal's type.
+      const updatedWeeks = JSON.parse(JSON.stringify(weeks)) as { [weekKey: string]: Week };
+      return migrateLegacyCategories(updatedWeeks, this.daysOfWeek, this.categoryService.keys()) ? updatedWeeks : weeks;
+    });
+
+    if (this.storageService.get<string>('planner-weekKeyFormat') !== 'iso') {
+      this.migrateWeekKeys();
+    }
+
+    // Auto-create week if it doesn't exist on load
+    this.ensureDisplayedWeeks();
+
+    this.purgeTrash();
+    this.saveStatus.set('All changes saved');
+    this.isLoaded.set(true);
+  }
+
+  /** Saves `state` and reflects the outcome in saveStatus. Resolves to whether the save succeeded. */
+  private persist(state: StateSnapshot): Promise<boolean> {
+    return this.plannerStorage.save(state).then(
+      () => {
+        this.saveError.set(null);
+        // A newer change may already be waiting for its own save.
+        const current = this.captureState();
+        const isLatest = (Object.keys(state) as (keyof StateSnapshot)[]).every(key => current[key] === state[key]);
+        this.saveStatus.set(isLatest ? 'All changes saved' : 'Saving...');
+        return true;
+      },
+      error => {
+        console.error('Error saving planner data:', error);
+        if (this.saveStatus() !== 'Save failed') this.toastService.show(`Changes could not be saved: ${this.describeError(error)}`, 6000);
+        this.saveStatus.set('Save failed');
+        this.saveError.set(this.describeError(error));
+        return false;
+      },
+    );
+  }
+
+  private describeError(error: unknown): string {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') return 'the browser storage is full';
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private addRecurrenceException(habitId: number, occurrenceDate: string): void {
+    this.todoPool.update(pool => pool.map(t =>
+      t.id === habitId && t.habit
+        ? { ...t, recurrenceExceptions: [...(t.recurrenceExceptions ?? []), occurrenceDate] }
+        : t
+    ));
+  }
+
+  /** Removes a task from the week grid or the pool and returns it, or null if it wasn't there. */
+  private removeTaskAt(location: TaskLocation, todoId: number): Todo | null {
+    let removed: Todo | null = null;
+    if (location.type === 'pool') {
+      removed = this.todoPool().find(t => t.id === todoId) ?? null;
+      if (removed) this.todoPool.update(pool => pool.filter(t => t.id !== todoId));
+      return removed;
+    }
+
+    const { weekKey, day, category } = location;
+    removed = this.allWeeks()[weekKey]?.[day]?.[category]?.find((t: Todo) => t.id === todoId) ?? null;
+    if (removed) {
+      this.allWeeks.update(currentWeeks => {
+        const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
+        newWeeks[weekKey][day][category] = newWeeks[weekKey][day][category].filter((t: Todo) => t.id !== todoId);
+        return newWeeks;
+      });
+    }
+    return removed;
+  }
+
+  /** Applies `update` to a copy of the task at `location`. Returns false if it wasn't there. */
+  private updateTaskAt(location: TaskLocation, todoId: number, update: (todo: Todo) => void): boolean {
+    if (location.type === 'pool') {
+      const todo = this.todoPool().find(t => t.id === todoId);
+      if (!todo) return false;
+      const copy = JSON.parse(JSON.stringify(todo)) as Todo;
+      update(copy);
+      this.todoPool.update(pool => pool.map(t => (t.id === todoId ? copy : t)));
+      return true;
+    }
+
+    const { weekKey, day, category } = location;
+    if (!this.allWeeks()[weekKey]?.[day]?.[category]?.some((t: Todo) => t.id === todoId)) return false;
     this.allWeeks.update(currentWeeks => {
-      // FIX: Added type assertion to prevent `JSON.parse` from returning `any`.
       const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
-      if (newWeeks[weekKey]?.[day]?.[category]) {
-        newWeeks[weekKey][day][category] = newWeeks[weekKey][day][category].filter((t: Todo) => t.id !== todo.id);
-      }
+      update(newWeeks[weekKey][day][category].find((t: Todo) => t.id === todoId)!);
       return newWeeks;
     });
+    return true;
+  }
 
-    // 2. Only return regular tasks (non-instantiated habits) to the pool.
-    // Instantiated habits are simply removed (deleted) when dragged back.
-    if (todo.sourceId == null) {
-      // Reset task to its default "category-less" state before returning
-      const resetTodo = { ...todo, urgent: false, important: true };
-      this.todoPool.update(pool => [resetTodo, ...pool]);
+  private insertTaskAt(location: TaskLocation, todo: Todo): void {
+    if (location.type === 'pool') {
+      this.todoPool.update(pool => todo.habit ? [...pool, todo] : [todo, ...pool]);
+      return;
     }
+
+    const { weekKey, day, category } = location;
+    this.allWeeks.update(currentWeeks => {
+      const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
+      if (!newWeeks[weekKey]) newWeeks[weekKey] = this.initializeWeek();
+      (newWeeks[weekKey][day][category] ??= []).push(todo);
+      return newWeeks;
+    });
   }
 
-  // Data Management
-  exportData(): void {
-    const data = {
-      allWeeks: this.allWeeks(),
-      todoPool: this.todoPool(),
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `planner_backup_${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  private purgeTrash(): void {
+    const days = this.trashRetentionDays();
+    if (days <= 0) return;
+    const cutoff = Date.now() - days * 86400000;
+    if (this.trash().some(item => item.deletedAt < cutoff)) {
+      this.trash.update(trash => trash.filter(item => item.deletedAt >= cutoff));
+    }
   }
 
-  importData(file: File): void {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = JSON.parse(e.target?.result as string);
-        // FIX: Add type assertion to ensure data from file conforms to the expected type.
-        if (data.allWeeks && data.todoPool) {
-          this.allWeeks.set(data.allWeeks as { [weekKey: string]: Week });
-          this.todoPool.set(data.todoPool as Todo[]);
-          alert('Data imported successfully!');
-        } else {
-          alert('Invalid data file.');
+  private createHabitInstance(habit: Todo, occurrenceDate?: string): Todo {
+    const { recurrence, recurrenceExceptions, ...rest } = habit;
+    return { ...rest, id: this.nextId(), sourceId: habit.id, completed: false, ...(occurrenceDate ? { occurrenceDate } : {}) };
+  }
+
+  /**
+   * Adds instances of recurring habits to `week` (mutated in place) for every matching date.
+   * Occurrences that already exist somewhere in the week (e.g. moved by hand), were
+   * deleted by hand or find the chores of their day full are skipped. Returns true if anything was added.
+   */
+  private placeRecurringHabits(week: Week, dates: Date[], habits: Todo[], fromDate?: Date): boolean {
+    let changed = false;
+    const existing = new Set(
+      (Object.values(week).flatMap(day => Object.values(day)) as Todo[][]).flat()
+        .filter(t => t.sourceId != null && t.occurrenceDate)
+        .map(t => `${t.sourceId}:${t.occurrenceDate}`)
+    );
+    for (const habit of habits) {
+      if (!habit.recurrence) continue;
+      dates.forEach((date, i) => {
+        const dateKey = toDateKey(date);
+        if (fromDate && date < fromDate) return;
+        if (!occursOn(habit.recurrence!, date)) return;
+        if (habit.recurrenceExceptions?.includes(dateKey) || existing.has(`${habit.id}:${dateKey}`)) return;
+        const dayTasks = week[this.daysOfWeek[i]];
+        const category = this.categoryService.categoryWithRoom(dayTasks, this.categoryService.categoryFor(habit));
+        if (!category) return;
+        (dayTasks[category] ??= []).push(this.createHabitInstance(habit, dateKey));
+        changed = true;
+      });
+    }
+    return changed;
+  }
+
+  /**
+   * Brings the generated instances of one habit in line with its current definition,
+   * from today onwards. Completed instances, past ones and ones moved by hand are left alone.
+   */
+  private syncHabitInstances(habitId: number): void {
+    const habit = this.habits().find(t => t.id === habitId) ?? null;
+    const today = startOfDay(new Date());
+    const todayKey = toDateKey(today);
+
+    this.allWeeks.update(currentWeeks => {
+      const newWeeks = JSON.parse(JSON.stringify(currentWeeks)) as { [weekKey: string]: Week };
+      for (const { weekKey, dates } of this.getStoredWeeksFrom(today, newWeeks)) {
+        const week = newWeeks[weekKey];
+        this.daysOfWeek.forEach((day, dayIndex) => {
+          for (const category of this.categoryService.keys()) {
+            week[day][category] = (week[day][category] ?? []).flatMap((t: Todo) => {
+              if (t.sourceId !== habitId || !t.occurrenceDate || t.completed || t.occurrenceDate < todayKey) return [t];
+              const movedByHand = category !== this.categoryService.categoryFor(t) || mondayBasedDay(parseDateKey(t.occurrenceDate)) !== dayIndex;
+              const stillOccurs = !!habit?.recurrence && occursOn(habit.recurrence, parseDateKey(t.occurrenceDate));
+              if (!habit || (!stillOccurs && !movedByHand)) return [];
+              return [{ ...t, text: habit.text, duration: habit.duration }];
+            });
+          }
+        });
+        if (habit) {
+          this.placeRecurringHabits(week, dates, [habit], today);
         }
-      } catch (err) {
-        alert('Error parsing data file.');
-        console.error(err);
       }
-    };
-    reader.readAsText(file);
+      return newWeeks;
+    });
   }
 
-  // --- Private Helper Methods ---
+  /** Lists the stored weeks from the one containing `date` onwards, with the dates of each. */
+  private getStoredWeeksFrom(date: Date, weeks: { [weekKey: string]: Week }): { weekKey: string; dates: Date[] }[] {
+    const firstKey = isoWeekKey(date);
+    return Object.keys(weeks)
+      .filter(weekKey => weekKey >= firstKey)
+      .map(weekKey => ({ weekKey, dates: weekKeyDates(weekKey) }))
+      .filter((entry): entry is { weekKey: string; dates: Date[] } => entry.dates !== null);
+  }
 
   private initializeWeek(): Week {
     const week: Partial<Week> = {};
@@ -440,30 +1661,21 @@ export class TaskService {
   
   private initializeDay(): DayTasks {
     const day: Partial<DayTasks> = {};
-    for (const category of CATEGORIES) {
+    for (const category of this.categoryService.keys()) {
         day[category] = [];
     }
     return day as DayTasks;
   }
 
-  private getMondayOfWeek(weekOffset: number = 0): Date {
-    const today = new Date();
-    today.setDate(today.getDate() + weekOffset * 7);
-    const day = today.getDay();
-    const diff = today.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-    return new Date(today.setDate(diff));
-  }
-  
-  private calculateWeekDates(weekOffset: number = 0): Date[] {
-    const monday = this.getMondayOfWeek(weekOffset);
-    return Array.from({ length: 7 }, (_, i) => {
-      const date = new Date(monday);
-      date.setDate(monday.getDate() + i);
-      return date;
-    });
+  /** The dates shown `weekOffset` weeks from the current one, starting on firstDayOfWeek. */
+  private getDisplayedWeekDates(weekOffset: number): Date[] {
+    const first = addDays(startOfWeek(new Date(), this.firstDayOfWeek()), weekOffset * 7);
+    return Array.from({ length: 7 }, (_, i) => addDays(first, i));
   }
 
-  private getLoadColor(percentage: number): string {
+  private getLoadColor(totalMinutes: number, capacity: number): string {
+    // Anything planned on a day without capacity is over the limit.
+    const percentage = capacity > 0 ? (totalMinutes / capacity) * 100 : (totalMinutes > 0 ? 100 : 0);
     if (percentage >= 95) return '#ef4444'; // Red-500
     if (percentage >= 75) return '#f97316'; // Orange-500
     if (percentage >= 50) return '#eab308'; // Yellow-500
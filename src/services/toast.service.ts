@@ -0,0 +1,24 @@
+import { Injectable, signal } from '@angular/core';
+
+export interface Toast {
+  id: number;
+  message: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ToastService {
+  private nextId = 1;
+  toasts = signal<Toast[]>([]);
+
+  show(message: string, durationMs = 3000): void {
+    const toast = { id: this.nextId++, message };
+    this.toasts.update(toasts => [...toasts.slice(-2), toast]);
+    setTimeout(() => this.dismiss(toast.id), durationMs);
+  }
+
+  dismiss(id: number): void {
+    this.toasts.update(toasts => toasts.filter(t => t.id !== id));
+  }
+}
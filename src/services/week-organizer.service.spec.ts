@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { computed, provideZonelessChangeDetection, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Todo } from '../models/todo.model';
+import { FakeGeminiClient } from '../testing/fake-gemini-client';
+import { DAYS, todo, week } from '../testing/fixtures';
+import { GEMINI_CLIENT, SchedulingPlanItem } from './gemini.service';
+import { TaskService } from './task.service';
+import { ToastService } from './toast.service';
+import { WeekOrganizerService } from './week-organizer.service';
+
+/** The parts of TaskService the organizer reads: next week, empty, with Sunday off. */
+class FakeTaskService {
+  readonly daysOfWeek = DAYS;
+  weekOffset = signal(1);
+  visibleDays = signal(DAYS);
+  dayWeekKeys = computed(() => Object.fromEntries(DAYS.map(day => [day, `week+${this.weekOffset()}`])));
+  currentDayIndex = signal(0);
+  week = signal(week());
+  backlogPool = signal<Todo[]>([
+    todo(1, { urgent: true }),
+    todo(2, { subtasks: [{ id: 21, text: 'a', duration: 50, completed: false }, { id: 22, text: 'b', duration: 40, completed: false }] }),
+    todo(3),
+  ]);
+  dailyLoad = computed(() => Object.fromEntries(DAYS.map(day => [day, { total: 0, actual: 0, capacity: day === 'SUNDAY' ? 0 : 480, percentage: 0, color: '' }])));
+  applied: SchedulingPlanItem[][] = [];
+
+  isDayOff(day: string): boolean {
+    return day === 'SUNDAY';
+  }
+
+  applySchedulingPlan(plan: SchedulingPlanItem[]): number {
+    this.applied.push(plan);
+    return plan.length;
+  }
+}
+
+function setUp(client: FakeGeminiClient | null) {
+  TestBed.configureTestingModule({
+    providers: [
+      provideZonelessChangeDetection(),
+      { provide: TaskService, useValue: new FakeTaskService() },
+      { provide: GEMINI_CLIENT, useValue: client },
+    ],
+  });
+  const organizer = TestBed.inject(WeekOrganizerService);
+  TestBed.tick();
+  return { organizer, taskService: TestBed.inject(TaskService) as unknown as FakeTaskService, toasts: TestBed.inject(ToastService) };
+}
+
+describe('WeekOrganizerService', () => {
+  let originalConsoleError: typeof console.error;
+
+  beforeEach(() => {
+    originalConsoleError = console.error;
+    console.error = () => undefined;
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+    TestBed.resetTestingModule();
+  });
+
+  it('asks the model about the backlog and the week', async () => {
+    const client = new FakeGeminiClient(() => ({ plan: [] }));
+    const { organizer } = setUp(client);
+    await organizer.organizeWeek('ai');
+
+    expect(client.requests).toHaveLength(1);
+    const prompt = String(client.requests[0].contents);
+    expect(prompt).toContain('"Task 1" (ID: 1, Duration: 30m, Priority: ASAP)');
+    expect(prompt).toContain('"Task 2" (ID: 2, Duration: 90m, Priority: SOON)');
+    expect(prompt).toContain('SUNDAY: day off');
+    const schema = JSON.stringify(client.requests[0].config?.responseSchema);
+    expect(schema).toContain('"focus"');
+    expect(schema).not.toContain('"basics"');
+  });
+
+  it('previews what the model planned, without anything it made up', async () => {
+    const { organizer } = setUp(new FakeGeminiClient(() => ({
+      plan: [
+        { id: 1, day: 'MONDAY', category: 'goal' },
+        { id: 2, day: 'MONDAY', category: 'goal' }, // a second goal on the same day
+        { id: 3, day: 'SUNDAY', category: 'focus' }, // day off
+        { id: 3, day: 'TUESDAY', category: 'basics' }, // chores are not planned
+        { id: 99, day: 'TUESDAY', category: 'focus' }, // unknown task
+        { id: 3, day: 'TUESDAY', category: 'focus' },
+        { id: 3, day: 'WEDNESDAY', category: 'focus' }, // duplicate
+      ],
+    })));
+    await organizer.organizeWeek('ai');
+
+    expect(organizer.previewEngine()).toBe('ai');
+    expect(organizer.preview()).toEqual([
+      { id: 1, day: 'MONDAY', category: 'goal', text: 'Task 1', duration: 30, selected: true },
+      { id: 3, day: 'TUESDAY', category: 'focus', text: 'Task 3', duration: 30, selected: true },
+    ]);
+    expect(organizer.unscheduled().map(item => item.id)).toEqual([2]);
+  });
+
+  it('applies the selected items to the week', async () => {
+    const { organizer, taskService } = setUp(new FakeGeminiClient(() => ({
+      plan: [{ id: 1, day: 'MONDAY', category: 'goal' }, { id: 3, day: 'TUESDAY', category: 'focus' }],
+    })));
+    await organizer.organizeWeek('ai');
+    organizer.togglePreviewItem(1);
+    organizer.applySelected();
+
+    expect(taskService.applied).toEqual([[{ id: 3, day: 'TUESDAY', category: 'focus' }]]);
+    expect(organizer.hasPreview()).toBe(false);
+  });
+
+  it('drops the preview when another week is shown', async () => {
+    const { organizer, taskService } = setUp(new FakeGeminiClient(() => ({ plan: [{ id: 1, day: 'MONDAY', category: 'goal' }] })));
+    await organizer.organizeWeek('ai');
+    expect(organizer.hasPreview()).toBe(true);
+
+    taskService.weekOffset.set(2);
+    TestBed.tick();
+    expect(organizer.hasPreview()).toBe(false);
+  });
+
+  it('drops a plan that arrives after another week was shown', async () => {
+    let answer!: (value: unknown) => void;
+    const { organizer, taskService } = setUp(new FakeGeminiClient(() => new Promise(resolve => answer = resolve)));
+    const organizing = organizer.organizeWeek('ai');
+    taskService.weekOffset.set(2);
+    TestBed.tick();
+    answer({ plan: [{ id: 1, day: 'MONDAY', category: 'goal' }] });
+    await organizing;
+
+    expect(organizer.hasPreview()).toBe(false);
+    expect(organizer.isOrganizing()).toBe(false);
+  });
+
+  it('reports a failed request and shows no preview', async () => {
+    const { organizer, toasts } = setUp(new FakeGeminiClient(() => { throw new Error('quota exceeded'); }));
+    await organizer.organizeWeek('ai');
+
+    expect(organizer.hasPreview()).toBe(false);
+    expect(organizer.isOrganizing()).toBe(false);
+    expect(toasts.toasts().map(t => t.message)).toEqual(['The AI could not organize the week right now. Please try again later.']);
+  });
+
+  it('plans with the local scheduler when no client is configured', async () => {
+    const { organizer } = setUp(null);
+    await organizer.organizeWeek();
+
+    expect(organizer.previewEngine()).toBe('local');
+    expect(organizer.preview()?.map(item => item.id).sort()).toEqual([1, 2, 3]);
+    expect(organizer.preview()?.every(item => item.day !== 'SUNDAY')).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { Injectable, signal, computed, effect, inject, untracked } from '@angular/core';
+import { CategoryKey, Todo, taskDuration } from '../models/todo.model';
+import { GeminiService, SchedulingPlanItem } from './gemini.service';
+import { TaskService } from './task.service';
+import { CategoryService } from './category.service';
+import { PwaService } from './pwa.service';
+import { ToastService } from './toast.service';
+import { createLocalSchedulingPlan, UnscheduledTask } from '../utils/local-scheduler';
+
+export type SchedulingEngine = 'ai' | 'local';
+
+export interface SchedulingPreviewItem extends SchedulingPlanItem {
+  text: string;
+  duration: number;
+  selected: boolean;
+}
+
+export interface UnscheduledPreviewItem extends UnscheduledTask {
+  text: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class WeekOrganizerService {
+  private taskService = inject(TaskService);
+  private categoryService = inject(CategoryService);
+  private geminiService = inject(GeminiService);
+  private pwaService = inject(PwaService);
+  private toastService = inject(ToastService);
+
+  isOrganizing = signal(false);
+  preview = signal<SchedulingPreviewItem[] | null>(null);
+  unscheduled = signal<UnscheduledPreviewItem[]>([]);
+  previewEngine = signal<SchedulingEngine | null>(null);
+
+  hasPreview = computed(() => this.preview() !== null);
+  selectedCount = computed(() => (this.preview() ?? []).filter(item => item.selected).length);
+
+  constructor() {
+    // A preview is planned for the days on screen. Showing other ones (another week, or another
+    // first day of the week) drops it, so it can never be applied to a week it was not made for.
+    effect(() => {
+      this.taskService.dayWeekKeys();
+      untracked(() => this.discard());
+    });
+  }
+
+  /** Uses Gemini when it is configured and online, and falls back to the local scheduler otherwise. */
+  async organizeWeek(engine: SchedulingEngine = this.geminiService.isAvailable() ? 'ai' : 'local'): Promise<void> {
+    if (this.isOrganizing()) return;
+    if (engine === 'local') {
+      this.organizeLocally();
+      return;
+    }
+    if (!this.pwaService.isOnline()) {
+      this.organizeOffline();
+      return;
+    }
+
+    this.isOrganizing.set(true);
+    const shownDays = this.taskService.dayWeekKeys();
+    try {
+      const plan = await this.geminiService.getSchedulingPlan(
+        this.taskService.backlogPool(),
+        this.taskService.week(),
+        this.taskService.dailyLoad()
+      );
+      if (shownDays !== this.taskService.dayWeekKeys()) {
+        // The user moved on to other days while the AI was planning.
+        this.toastService.show('The week changed while it was being organized, so the plan was dropped');
+      } else if (plan) {
+        const preview = this.toPreview(plan);
+        const plannedIds = new Set(preview.map(item => item.id));
+        this.setPreview('ai', preview, this.taskService.backlogPool()
+          .filter(t => !plannedIds.has(t.id))
+          .map(t => ({ id: t.id, text: t.text, reason: 'capacity' as const, detail: 'Left out of the AI plan.' })));
+      } else if (!this.pwaService.isOnline()) {
+        this.organizeOffline();
+      }
+    } finally {
+      this.isOrganizing.set(false);
+    }
+  }
+
+  organizeLocally(): void {
+    const backlog = this.taskService.backlogPool();
+    const result = createLocalSchedulingPlan(backlog, this.taskService.week(), {
+      days: this.taskService.visibleDays(),
+      capacities: Object.fromEntries(Object.entries(this.taskService.dailyLoad()).map(([day, load]) => [day, load.capacity])),
+      categories: this.categoryService.categories(),
+      firstDayIndex: this.firstOpenDayIndex(),
+    });
+    const texts = new Map(backlog.map(t => [t.id, t.text]));
+    this.setPreview('local', this.toPreview(result.plan), result.unscheduled.map(item => ({ ...item, text: texts.get(item.id) ?? '' })));
+  }
+
+  previewFor(day: string, category: CategoryKey): SchedulingPreviewItem[] {
+    return (this.preview() ?? []).filter(item => item.day === day && item.category === category);
+  }
+
+  togglePreviewItem(id: number): void {
+    this.preview.update(items => items?.map(item => item.id === id ? { ...item, selected: !item.selected } : item) ?? null);
+  }
+
+  applySelected(): void {
+    this.apply((this.preview() ?? []).filter(item => item.selected));
+  }
+
+  applyAll(): void {
+    this.apply(this.preview() ?? []);
+  }
+
+  discard(): void {
+    this.setPreview(null, null, []);
+  }
+
+  private organizeOffline(): void {
+    this.toastService.show('You are offline, so the built-in planner organized the week');
+    this.organizeLocally();
+  }
+
+  private apply(items: SchedulingPreviewItem[]): void {
+    this.taskService.applySchedulingPlan(items.map(({ id, day, category }) => ({ id, day, category })));
+    this.discard();
+  }
+
+  private setPreview(engine: SchedulingEngine | null, preview: SchedulingPreviewItem[] | null, unscheduled: UnscheduledPreviewItem[]): void {
+    this.previewEngine.set(engine);
+    this.preview.set(preview);
+    this.unscheduled.set(unscheduled);
+  }
+
+  // Days already behind us in the current week are not offered to the scheduler.
+  private firstOpenDayIndex(): number {
+    const offset = this.taskService.weekOffset();
+    if (offset > 0) return 0;
+    if (offset < 0) return this.taskService.daysOfWeek.length;
+    return this.taskService.currentDayIndex();
+  }
+
+  /**
+   * Drops anything the model made up (unknown IDs, days or categories, duplicates, days off)
+   * and enforces the category limits (e.g. one goal per day) before the plan is shown to the user.
+   */
+  private toPreview(plan: SchedulingPlanItem[]): SchedulingPreviewItem[] {
+    const backlog = new Map(this.taskService.backlogPool().map(t => [t.id, t]));
+    const week = this.taskService.week();
+    const seen = new Set<number>();
+    const planned = new Map<string, Todo[]>();
+    const result: SchedulingPreviewItem[] = [];
+
+    const schedulable = new Set(this.categoryService.taskCategories().map(c => c.key));
+
+    for (const item of plan) {
+      const todo = backlog.get(item.id);
+      if (!todo || seen.has(item.id)) continue;
+      if (!this.taskService.daysOfWeek.includes(item.day) || this.taskService.isDayOff(item.day)) continue;
+      if (!schedulable.has(item.category)) continue;
+      const slot = `${item.day}:${item.category}`;
+      const plannedHere = planned.get(slot) ?? [];
+      if (!this.categoryService.hasRoom(item.category, [...(week[item.day]?.[item.category] ?? []), ...plannedHere])) continue;
+      planned.set(slot, [...plannedHere, todo]);
+      seen.add(item.id);
+      result.push({ id: item.id, day: item.day, category: item.category, text: todo.text, duration: taskDuration(todo), selected: true });
+    }
+    return result;
+  }
+}
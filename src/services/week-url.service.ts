@@ -0,0 +1,48 @@
+import { Injectable, effect, inject } from '@angular/core';
+import { TaskService } from './task.service';
+import { ToastService } from './toast.service';
+
+const WEEK_PARAM = 'week';
+
+/**
+ * Mirrors the displayed week in the address bar (`?week=2026-W42`), so a week can be
+ * bookmarked and reopened, and follows the browser's back and forward buttons.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WeekUrlService {
+  private taskService = inject(TaskService);
+  private toastService = inject(ToastService);
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+
+    const requested = this.readWeekParam();
+    if (requested && !this.taskService.goToWeekKey(requested)) {
+      this.toastService.show(`"${requested}" is not a week, showing this week instead`);
+    }
+
+    window.addEventListener('popstate', () => {
+      const weekKey = this.readWeekParam();
+      if (!weekKey || !this.taskService.goToWeekKey(weekKey)) this.taskService.goToToday();
+    });
+
+    // The first write only fills in the parameter; later navigation adds history entries.
+    let isFirstRun = true;
+    effect(() => {
+      const weekKey = this.taskService.currentWeekKey();
+      if (this.readWeekParam() !== weekKey) {
+        const url = new URL(window.location.href);
+        url.searchParams.set(WEEK_PARAM, weekKey);
+        if (isFirstRun) history.replaceState(null, '', url);
+        else history.pushState(null, '', url);
+      }
+      isFirstRun = false;
+    });
+  }
+
+  private readWeekParam(): string | null {
+    return new URL(window.location.href).searchParams.get(WEEK_PARAM);
+  }
+}
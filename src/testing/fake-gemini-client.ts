@@ -0,0 +1,21 @@
+import { GenerateContentParameters } from '@google/genai';
+import { GeminiClient } from '../services/gemini.service';
+
+/**
+ * A local stand-in for the GoogleGenAI client, provided through GEMINI_CLIENT, so the organizer
+ * can be tested offline. `respond` builds the JSON the model would answer with; throwing from it
+ * fails the request like a network or API error would.
+ */
+export class FakeGeminiClient implements GeminiClient {
+  /** Every request made, so tests can look at the prompt and the response schema. */
+  readonly requests: GenerateContentParameters[] = [];
+
+  constructor(private respond: (params: GenerateContentParameters) => unknown) {}
+
+  readonly models = {
+    generateContent: async (params: GenerateContentParameters): Promise<{ text?: string }> => {
+      this.requests.push(params);
+      return { text: JSON.stringify(await this.respond(params)) };
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { CategoryKey, DEFAULT_CATEGORIES, Todo, Week } from '../models/todo.model';
+
+// Builders for the tasks and weeks the specs work with.
+
+export const DAYS = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
+export const CATEGORY_KEYS = DEFAULT_CATEGORIES.map(c => c.key);
+
+/** An open, important 30 minute task called "Task <id>". */
+export function todo(id: number, changes: Partial<Todo> = {}): Todo {
+  return { id, text: `Task ${id}`, completed: false, urgent: false, important: true, duration: 30, habit: false, ...changes };
+}
+
+/** A week with an empty list for every category in `keys`, plus the tasks given by day and category. */
+export function week(tasks: Partial<Record<string, Partial<Record<CategoryKey, Todo[]>>>> = {}, keys: readonly CategoryKey[] = CATEGORY_KEYS): Week {
+  return Object.fromEntries(DAYS.map(day => [day, { ...Object.fromEntries(keys.map(key => [key, []])), ...tasks[day] }])) as Week;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { DAYS, todo, week } from '../testing/fixtures';
+import { habitStreaks, postponedTasks, summarizeWeek, weeklyTrend } from './analytics';
+import { addDays } from './date.utils';
+
+const MINUTE = 60000;
+
+function datesFrom(monday: Date): Date[] {
+  return DAYS.map((_, i) => addDays(monday, i));
+}
+
+// Monday 2026-10-12
+const MONDAY = new Date(2026, 9, 12);
+
+const FIXTURE = week({
+  MONDAY: {
+    goal: [todo(1, { duration: 60, completed: true })],
+    focus: [todo(2, { completed: true, timeLogs: [{ start: 0, end: 45 * MINUTE }] }), todo(3, { duration: 90 })],
+  },
+  TUESDAY: {
+    goal: [todo(4, { duration: 120 })],
+    // Subtasks count instead of the task's own duration.
+    work: [todo(5, { duration: 10, subtasks: [{ id: 51, text: 'a', duration: 20, completed: true }, { id: 52, text: 'b', duration: 25, completed: false }] })],
+  },
+  WEDNESDAY: {
+    leisure: [todo(6, { duration: 40, completed: true, timeLogs: [{ start: 0, end: 10 * MINUTE }, { start: 20 * MINUTE, end: 40 * MINUTE }] })],
+  },
+});
+
+describe('summarizeWeek', () => {
+  const summary = summarizeWeek('2026-W42', FIXTURE, DAYS);
+
+  it('totals planned and completed minutes', () => {
+    expect(summary.planned).toBe(60 + 30 + 90 + 120 + 45 + 40);
+    expect(summary.completed).toBe(60 + 30 + 40);
+    expect(summary.completionRate).toBeCloseTo(130 / 385);
+  });
+
+  it('gives the load of every day', () => {
+    expect(summary.days.map(d => d.day)).toEqual(DAYS);
+    expect(summary.days.map(d => d.planned)).toEqual([180, 165, 40, 0, 0, 0, 0]);
+    expect(summary.days.map(d => d.completed)).toEqual([90, 0, 40, 0, 0, 0, 0]);
+  });
+
+  it('splits the minutes by category, listing only categories with tasks', () => {
+    expect(summary.byCategory).toEqual({
+      goal: { planned: 180, completed: 60 },
+      focus: { planned: 120, completed: 30 },
+      work: { planned: 45, completed: 0 },
+      leisure: { planned: 40, completed: 40 },
+    });
+    expect(summary.days[2].byCategory).toEqual({ leisure: { planned: 40, completed: 40 } });
+  });
+
+  it('compares estimates with the time logged, for timed tasks only', () => {
+    expect(summary.tracked).toEqual({ estimated: 30 + 40, actual: 45 + 30 });
+    expect(summary.days[0].tracked).toEqual({ estimated: 30, actual: 45 });
+    expect(summary.days[1].tracked).toEqual({ estimated: 0, actual: 0 });
+  });
+
+  it('counts the goals of the days', () => {
+    expect(summary.goals).toEqual({ set: 2, completed: 1, rate: 0.5 });
+  });
+
+  it('has no rates for an empty week', () => {
+    const empty = summarizeWeek('2026-W43', undefined, DAYS);
+    expect(empty.planned).toBe(0);
+    expect(empty.completionRate).toBeNull();
+    expect(empty.goals.rate).toBeNull();
+    expect(empty.byCategory).toEqual({});
+  });
+});
+
+describe('weeklyTrend', () => {
+  it('summarizes each week', () => {
+    const trend = weeklyTrend([
+      { weekKey: '2026-W42', dates: datesFrom(MONDAY), week: FIXTURE },
+      { weekKey: '2026-W43', dates: datesFrom(addDays(MONDAY, 7)), week: undefined },
+    ], DAYS);
+    expect(trend).toEqual([
+      { weekKey: '2026-W42', planned: 385, completed: 130, completionRate: 130 / 385, goalRate: 0.5 },
+      { weekKey: '2026-W43', planned: 0, completed: 0, completionRate: null, goalRate: null },
+    ]);
+  });
+});
+
+describe('habitStreaks', () => {
+  const habit = todo(100, { duration: 15, habit: true, text: 'Stretch' });
+  const instance = (id: number, date: string, completed: boolean) => todo(id, { duration: 15, sourceId: 100, occurrenceDate: date, completed });
+  const habitWeek = week({
+    MONDAY: { basics: [instance(101, '2026-10-12', true)] },
+    TUESDAY: { basics: [instance(102, '2026-10-13', false)] },
+    WEDNESDAY: { basics: [instance(103, '2026-10-14', true)] },
+    THURSDAY: { basics: [instance(104, '2026-10-15', true)] },
+    FRIDAY: { basics: [instance(105, '2026-10-16', false)] },
+    SATURDAY: { basics: [instance(106, '2026-10-17', true)] },
+  });
+
+  it('counts the current and the best run up to today', () => {
+    // Today is Friday: its open occurrence does not break the streak, Saturday's is not due yet.
+    const [streak] = habitStreaks([{ weekKey: '2026-W42', dates: datesFrom(MONDAY), week: habitWeek }], [habit], DAYS, new Date(2026, 9, 16, 18));
+    expect(streak).toEqual({ habitId: 100, text: 'Stretch', current: 2, best: 2, completed: 3, due: 4 });
+  });
+
+  it('breaks the streak once a day has passed', () => {
+    const [streak] = habitStreaks([{ weekKey: '2026-W42', dates: datesFrom(MONDAY), week: habitWeek }], [habit], DAYS, new Date(2026, 9, 17, 8));
+    expect(streak.current).toBe(1);
+    expect(streak.due).toBe(6);
+  });
+});
+
+describe('postponedTasks', () => {
+  it('lists moved tasks, most often moved first', () => {
+    const weeks = { '2026-W42': week({ MONDAY: { focus: [todo(1, { postponedCount: 1 }), todo(2)] } }) };
+    const pool = [todo(3, { returnedCount: 2, postponedCount: 1 }), todo(4, { habit: true, postponedCount: 5 })];
+    expect(postponedTasks(weeks, pool)).toEqual([
+      { id: 3, text: 'Task 3', postponedCount: 1, returnedCount: 2, weekKey: null },
+      { id: 1, text: 'Task 1', postponedCount: 1, returnedCount: 0, weekKey: '2026-W42' },
+    ]);
+  });
+});
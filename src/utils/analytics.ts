@@ -0,0 +1,176 @@
+import { Todo, Week, CategoryKey, actualMinutes, taskDuration } from '../models/todo.model';
+import { startOfDay, toDateKey } from './date.utils';
+
+// Pure statistics over stored weeks, used by the weekly review.
+// Nothing here reads signals or storage, so it can be fed fixture data directly.
+
+/** A stored week together with the dates of its days (index-aligned with `days`). */
+export interface DatedWeek {
+  weekKey: string;
+  dates: Date[];
+  week: Week | undefined;
+}
+
+export interface MinuteTotals {
+  planned: number;
+  completed: number;
+}
+
+/** Estimated and actual minutes of the tasks that have time logged with the focus timer. */
+export interface TrackedTime {
+  estimated: number;
+  actual: number;
+}
+
+export interface DaySummary extends MinuteTotals {
+  day: string;
+  /** Only categories holding tasks that day are listed. */
+  byCategory: Partial<Record<CategoryKey, MinuteTotals>>;
+  tracked: TrackedTime;
+}
+
+export interface WeekSummary extends MinuteTotals {
+  weekKey: string;
+  days: DaySummary[];
+  byCategory: Partial<Record<CategoryKey, MinuteTotals>>;
+  tracked: TrackedTime;
+  /** Completed share of planned minutes, or null when nothing was planned. */
+  completionRate: number | null;
+  goals: { set: number; completed: number; rate: number | null };
+}
+
+export interface HabitStreak {
+  habitId: number;
+  text: string;
+  /** Completed occurrences in a row, up to the most recent one that is due. */
+  current: number;
+  best: number;
+  completed: number;
+  due: number;
+}
+
+export interface PostponedTask {
+  id: number;
+  text: string;
+  postponedCount: number;
+  returnedCount: number;
+  /** Where the task is now: a week key, or null for the backlog. */
+  weekKey: string | null;
+}
+
+export interface WeekTrend extends MinuteTotals {
+  weekKey: string;
+  completionRate: number | null;
+  goalRate: number | null;
+}
+
+export function summarizeWeek(weekKey: string, week: Week | undefined, days: readonly string[]): WeekSummary {
+  const byCategory: Partial<Record<CategoryKey, MinuteTotals>> = {};
+  const goals = { set: 0, completed: 0, rate: null as number | null };
+
+  const daySummaries = days.map(day => {
+    const summary: DaySummary = { day, planned: 0, completed: 0, byCategory: {}, tracked: { estimated: 0, actual: 0 } };
+    for (const [category, tasks] of Object.entries(week?.[day] ?? {})) {
+      for (const todo of tasks) {
+        const minutes = taskDuration(todo);
+        const dayTotals = summary.byCategory[category] ??= { planned: 0, completed: 0 };
+        const weekTotals = byCategory[category] ??= { planned: 0, completed: 0 };
+        summary.planned += minutes;
+        dayTotals.planned += minutes;
+        weekTotals.planned += minutes;
+        if (todo.completed) {
+          summary.completed += minutes;
+          dayTotals.completed += minutes;
+          weekTotals.completed += minutes;
+        }
+        if (todo.timeLogs?.length) {
+          summary.tracked.estimated += minutes;
+          summary.tracked.actual += actualMinutes(todo);
+        }
+        if (category === 'goal') {
+          goals.set++;
+          if (todo.completed) goals.completed++;
+        }
+      }
+    }
+    return summary;
+  });
+
+  const planned = daySummaries.reduce((sum, d) => sum + d.planned, 0);
+  const completed = daySummaries.reduce((sum, d) => sum + d.completed, 0);
+  const tracked = {
+    estimated: daySummaries.reduce((sum, d) => sum + d.tracked.estimated, 0),
+    actual: daySummaries.reduce((sum, d) => sum + d.tracked.actual, 0),
+  };
+  goals.rate = ratio(goals.completed, goals.set);
+  return { weekKey, days: daySummaries, planned, completed, byCategory, tracked, completionRate: ratio(completed, planned), goals };
+}
+
+export function weeklyTrend(weeks: DatedWeek[], days: readonly string[]): WeekTrend[] {
+  return weeks.map(({ weekKey, week }) => {
+    const summary = summarizeWeek(weekKey, week, days);
+    return { weekKey, planned: summary.planned, completed: summary.completed, completionRate: summary.completionRate, goalRate: summary.goals.rate };
+  });
+}
+
+/**
+ * Streaks per habit, built from the instances in the grid (matched by sourceId).
+ * Occurrences after `today` are ignored, and an open occurrence today does not break a streak yet.
+ */
+export function habitStreaks(weeks: DatedWeek[], habits: Todo[], days: readonly string[], today: Date): HabitStreak[] {
+  const todayKey = toDateKey(startOfDay(today));
+  const occurrences = new Map<number, { date: string; completed: boolean }[]>();
+
+  for (const { dates, week } of weeks) {
+    if (!week) continue;
+    days.forEach((day, i) => {
+      for (const tasks of Object.values(week[day] ?? {})) {
+        for (const todo of tasks) {
+          if (todo.sourceId == null || todo.habit) continue;
+          const date = todo.occurrenceDate ?? toDateKey(dates[i]);
+          if (date > todayKey || (date === todayKey && !todo.completed)) continue;
+          const list = occurrences.get(todo.sourceId) ?? [];
+          list.push({ date, completed: todo.completed });
+          occurrences.set(todo.sourceId, list);
+        }
+      }
+    });
+  }
+
+  return habits.map(habit => {
+    const list = (occurrences.get(habit.id) ?? []).sort((a, b) => a.date.localeCompare(b.date));
+    let run = 0;
+    let best = 0;
+    for (const occurrence of list) {
+      run = occurrence.completed ? run + 1 : 0;
+      best = Math.max(best, run);
+    }
+    return { habitId: habit.id, text: habit.text, current: run, best, completed: list.filter(o => o.completed).length, due: list.length };
+  });
+}
+
+/** Tasks that were carried over or sent back to the backlog, most often moved first. */
+export function postponedTasks(allWeeks: { [weekKey: string]: Week }, todoPool: Todo[]): PostponedTask[] {
+  const result: PostponedTask[] = [];
+  const add = (todo: Todo, weekKey: string | null) => {
+    if (!todo.postponedCount && !todo.returnedCount) return;
+    result.push({ id: todo.id, text: todo.text, postponedCount: todo.postponedCount ?? 0, returnedCount: todo.returnedCount ?? 0, weekKey });
+  };
+
+  for (const [weekKey, week] of Object.entries(allWeeks)) {
+    for (const dayTasks of Object.values(week)) {
+      for (const tasks of Object.values(dayTasks)) {
+        for (const todo of tasks) add(todo, weekKey);
+      }
+    }
+  }
+  todoPool.filter(t => !t.habit).forEach(todo => add(todo, null));
+
+  return result.sort((a, b) =>
+    (b.postponedCount + b.returnedCount) - (a.postponedCount + a.returnedCount) || a.text.localeCompare(b.text)
+  );
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { CategoryConfig, DEFAULT_CATEGORIES, Todo, Week } from '../models/todo.model';
+import { CATEGORY_KEYS, DAYS, todo, week } from '../testing/fixtures';
+import { BACKUP_VERSION, PlannerBackup, legacyWeekKey, legacyWeekKeyMonday, migrateLegacyWeekKeys, parseBackup, planImport } from './backup';
+import { isoWeekKey } from './date.utils';
+
+describe('legacy week keys', () => {
+  it('differ from ISO keys around New Year', () => {
+    // 2021 starts on a Friday: the old count called its first Monday week 2.
+    expect(legacyWeekKey(new Date(2021, 0, 4))).toBe('2021-W02');
+    expect(isoWeekKey(new Date(2021, 0, 4))).toBe('2021-W01');
+    // 2024-12-30 was still counted in 2024, ISO puts it into 2025.
+    expect(legacyWeekKey(new Date(2024, 11, 30))).toBe('2024-W53');
+    expect(isoWeekKey(new Date(2024, 11, 30))).toBe('2025-W01');
+  });
+
+  it('map back to their Monday', () => {
+    for (const monday of [new Date(2021, 0, 4), new Date(2024, 11, 30), new Date(2026, 2, 30), new Date(2026, 9, 26)]) {
+      expect(legacyWeekKeyMonday(legacyWeekKey(monday))?.getTime()).toBe(monday.getTime());
+    }
+  });
+});
+
+describe('migrateLegacyWeekKeys', () => {
+  it('re-keys weeks to ISO week keys', () => {
+    const { weeks, renamed } = migrateLegacyWeekKeys({ '2021-W02': week({ MONDAY: { focus: [todo(1)] } }), '2024-W53': week({ TUESDAY: { focus: [todo(2)] } }) }, DAYS);
+    expect(renamed).toEqual({ '2021-W02': '2021-W01', '2024-W53': '2025-W01' });
+    expect(Object.keys(weeks).sort()).toEqual(['2021-W01', '2025-W01']);
+    expect(weeks['2021-W01']['MONDAY']['focus'].map(t => t.id)).toEqual([1]);
+    expect(weeks['2025-W01']['TUESDAY']['focus'].map(t => t.id)).toEqual([2]);
+  });
+
+  it('merges weeks that end up under the same key without losing or duplicating tasks', () => {
+    // '2021-W02' is renamed to '2021-W01', which is also present already.
+    const { weeks } = migrateLegacyWeekKeys({
+      '2021-W01': week({ MONDAY: { focus: [todo(1), todo(2)] } }),
+      '2021-W02': week({ MONDAY: { focus: [todo(2), todo(3)] } }),
+    }, DAYS);
+    expect(weeks['2021-W01']['MONDAY']['focus'].map(t => t.id).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('keeps keys it cannot resolve and does not touch its input', () => {
+    const input = { 'someday': week({ MONDAY: { focus: [todo(1)] } }) };
+    const { weeks, renamed } = migrateLegacyWeekKeys(input, DAYS);
+    expect(weeks['someday']).toEqual(input['someday']);
+    expect(renamed).toEqual({});
+    expect(Object.keys(input)).toEqual(['someday']);
+  });
+});
+
+describe('parseBackup', () => {
+  it('migrates a version 2 file to ISO week keys', () => {
+    const file = { version: 2, exportedAt: '2025-01-02T10:00:00.000Z', allWeeks: { '2024-W53': week({ MONDAY: { focus: [todo(1)] } }) }, todoPool: [todo(2)] };
+    const result = parseBackup(JSON.stringify(file), DAYS, CATEGORY_KEYS);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.migratedFrom).toBe(2);
+    expect(result.backup.version).toBe(BACKUP_VERSION);
+    expect(Object.keys(result.backup.allWeeks)).toEqual(['2025-W01']);
+    expect(result.backup.allWeeks['2025-W01']['MONDAY']['focus'][0].text).toBe('Task 1');
+  });
+
+  it('leaves current files as they are', () => {
+    const file = { version: BACKUP_VERSION, exportedAt: '', allWeeks: { '2025-W01': week() }, todoPool: [] };
+    const result = parseBackup(JSON.stringify(file), DAYS, CATEGORY_KEYS);
+    expect(result.ok && result.migratedFrom).toBe(null);
+    expect(result.ok && Object.keys(result.backup.allWeeks)).toEqual(['2025-W01']);
+  });
+
+  it('rejects week keys that are not ISO weeks once migrated', () => {
+    const file = { version: BACKUP_VERSION, exportedAt: '', allWeeks: { '2024-W53': week() }, todoPool: [] };
+    const result = parseBackup(JSON.stringify(file), DAYS, CATEGORY_KEYS);
+    expect(result).toMatchObject({ ok: false, issues: [{ path: 'allWeeks["2024-W53"]' }] });
+  });
+});
+
+describe('planImport', () => {
+  const backup = (allWeeks: { [weekKey: string]: Week }, todoPool: Todo[] = []): PlannerBackup => ({ version: BACKUP_VERSION, exportedAt: '', allWeeks, todoPool });
+  const goalOn = (id: number) => ({ MONDAY: { goal: [todo(id)] } });
+
+  it('passes a task on when its category is at its limit', () => {
+    const plan = planImport({ allWeeks: { '2026-W42': week(goalOn(1)) }, todoPool: [] }, backup({ '2026-W42': week(goalOn(2)) }), 'merge', 'imported', DAYS, DEFAULT_CATEGORIES);
+    expect(plan.allWeeks['2026-W42']['MONDAY']['goal'].map(t => t.id)).toEqual([1]);
+    expect(plan.allWeeks['2026-W42']['MONDAY']['focus'].map(t => t.id)).toEqual([2]);
+  });
+
+  it('follows the configured limits', () => {
+    const categories = DEFAULT_CATEGORIES.map(c => c.key === 'goal' ? { ...c, limit: 2 } : c);
+    const plan = planImport({ allWeeks: { '2026-W42': week(goalOn(1)) }, todoPool: [] }, backup({ '2026-W42': week(goalOn(2)) }), 'merge', 'imported', DAYS, categories);
+    expect(plan.allWeeks['2026-W42']['MONDAY']['goal'].map(t => t.id)).toEqual([1, 2]);
+  });
+
+  it('sends a task to the backlog when its category and the ones after it are full', () => {
+    const categories: CategoryConfig[] = [{ ...DEFAULT_CATEGORIES[0] }, { ...DEFAULT_CATEGORIES[4] }];
+    const plan = planImport({ allWeeks: { '2026-W42': week(goalOn(1)) }, todoPool: [] }, backup({ '2026-W42': week(goalOn(2)) }), 'merge', 'imported', DAYS, categories);
+    expect(plan.todoPool.map(t => t.id)).toEqual([2]);
+    expect(plan.added).toEqual([{ id: 2, text: 'Task 2', where: 'Backlog' }]);
+  });
+
+  it('gives new weeks a list for every configured category and keeps unknown ones', () => {
+    const categories = [...DEFAULT_CATEGORIES, { key: 'custom-1', label: 'Side project', color: '#a78bfa', slots: 2, limit: null, urgent: false, important: true }];
+    const imported = backup({ '2026-W43': week({ MONDAY: { 'custom-1': [todo(1)], 'custom-2': [todo(2)] } }) });
+    const plan = planImport({ allWeeks: {}, todoPool: [] }, imported, 'merge', 'imported', DAYS, categories);
+    expect(Object.keys(plan.allWeeks['2026-W43']['TUESDAY'])).toEqual([...CATEGORY_KEYS, 'custom-1']);
+    expect(plan.allWeeks['2026-W43']['MONDAY']['custom-1'].map(t => t.id)).toEqual([1]);
+    expect(plan.allWeeks['2026-W43']['MONDAY']['custom-2'].map(t => t.id)).toEqual([2]);
+  });
+});
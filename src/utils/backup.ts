@@ -0,0 +1,411 @@
+import { Todo, Week, CategoryConfig, CategoryKey, TaskLocation } from '../models/todo.model';
+import { addDays, daysBetween, isoWeekKey, parseWeekKey } from './date.utils';
+import { categoryWithRoom } from './categories';
+
+// Backup file format: versioning, migrations of older files, validation and
+// the replace/merge planning used by the import preview.
+
+export const BACKUP_VERSION = 3;
+
+export interface PlannerBackup {
+  version: number;
+  exportedAt: string;
+  allWeeks: { [weekKey: string]: Week };
+  todoPool: Todo[];
+}
+
+export interface BackupIssue {
+  /** Where the problem is, e.g. `allWeeks["2024-W07"].MONDAY.focus[1].duration`. */
+  path: string;
+  message: string;
+}
+
+export type BackupParseResult =
+  | { ok: true; backup: PlannerBackup; migratedFrom: number | null }
+  | { ok: false; issues: BackupIssue[] };
+
+export type ImportMode = 'replace' | 'merge';
+/** Which copy wins in merge mode when the file and the planner both have a task with the same ID. */
+export type ConflictStrategy = 'imported' | 'current';
+
+export interface ImportChange {
+  id: number;
+  text: string;
+  where: string;
+}
+
+export interface ImportPlan {
+  allWeeks: { [weekKey: string]: Week };
+  todoPool: Todo[];
+  added: ImportChange[];
+  updated: ImportChange[];
+  removed: ImportChange[];
+  /** Tasks present in both with different content, left as they are (merge, keep current). */
+  skipped: ImportChange[];
+  unchanged: number;
+}
+
+/**
+ * Renames the legacy day categories (chore/core/offTime -> basics/work/leisure) and adds
+ * any of the configured `categories` that are missing. Mutates `weeks` in place and returns true if anything changed.
+ */
+export function migrateLegacyCategories(
+  weeks: { [weekKey: string]: Week },
+  days: readonly string[],
+  categories: readonly CategoryKey[],
+): boolean {
+  let changed = false;
+  for (const week of Object.values(weeks)) {
+    if (!isRecord(week)) continue;
+    for (const day of days) {
+      const dayTasks = week[day] as Record<string, unknown> | undefined;
+      if (!isRecord(dayTasks)) continue;
+      for (const [legacy, category] of [['chore', 'basics'], ['core', 'work'], ['offTime', 'leisure']] as const) {
+        if (!dayTasks[category]) {
+          dayTasks[category] = dayTasks[legacy] || [];
+          delete dayTasks[legacy];
+          changed = true;
+        }
+      }
+      for (const category of categories) {
+        if (!dayTasks[category]) { dayTasks[category] = []; changed = true; }
+      }
+    }
+  }
+  return changed;
+}
+
+/**
+ * The key the planner used before ISO week numbers: the calendar year of the week's Monday and
+ * a count of the weeks started since January 1. Evaluated at midday, away from the midnight and
+ * DST edge cases where the old formula's result depended on the clock.
+ */
+export function legacyWeekKey(monday: Date): string {
+  const year = monday.getFullYear();
+  const firstDayOfYear = new Date(year, 0, 1);
+  const pastDaysOfYear = daysBetween(firstDayOfYear, monday) + 0.5;
+  const weekNumber = Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
+  return `${year}-W${String(weekNumber).padStart(2, '0')}`;
+}
+
+/** Monday of the week a legacy key was written for, or null if no Monday of that year produces it. */
+export function legacyWeekKeyMonday(key: string): Date | null {
+  const match = key.match(/^(\d{4})-W(\d{2})$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const january1 = new Date(year, 0, 1);
+  for (let monday = addDays(january1, (8 - january1.getDay()) % 7); monday.getFullYear() === year; monday = addDays(monday, 7)) {
+    if (legacyWeekKey(monday) === key) return monday;
+  }
+  return null;
+}
+
+/**
+ * Re-keys weeks stored under legacy keys to ISO 8601 week keys. Weeks that end up under the
+ * same key (the old formula could give one week two keys) are merged task by task, so nothing
+ * is lost; keys that cannot be resolved are kept as they are. Returns the new weeks and a map
+ * from each old key to its new one.
+ */
+export function migrateLegacyWeekKeys(
+  weeks: { [weekKey: string]: Week },
+  days: readonly string[],
+): { weeks: { [weekKey: string]: Week }; renamed: Record<string, string> } {
+  const result: { [weekKey: string]: Week } = {};
+  weeks = JSON.parse(JSON.stringify(weeks)) as { [weekKey: string]: Week };
+  const renamed: Record<string, string> = {};
+
+  for (const [key, week] of Object.entries(weeks)) {
+    const monday = legacyWeekKeyMonday(key);
+    const newKey = monday ? isoWeekKey(monday) : key;
+    if (newKey !== key) renamed[key] = newKey;
+
+    const target = result[newKey];
+    if (!target || !isRecord(week)) {
+      result[newKey] = target ?? week;
+      continue;
+    }
+    for (const day of days) {
+      const dayTasks = week[day];
+      if (!isRecord(dayTasks)) continue;
+      if (!isRecord(target[day])) { target[day] = dayTasks; continue; }
+      for (const [category, tasks] of Object.entries(dayTasks) as [CategoryKey, Todo[]][]) {
+        const existing = target[day][category] ?? [];
+        const ids = new Set(existing.map(t => t.id));
+        target[day][category] = [...existing, ...(Array.isArray(tasks) ? tasks.filter(t => !ids.has(t?.id)) : [])];
+      }
+    }
+  }
+  return { weeks: result, renamed };
+}
+
+// Each migration upgrades a file from the version it is keyed by to the next one.
+// Files written before versioning was introduced count as version 1.
+const MIGRATIONS: Record<number, (data: Record<string, unknown>, days: readonly string[], categories: readonly CategoryKey[]) => void> = {
+  1: (data, days, categories) => {
+    if (isRecord(data['allWeeks'])) migrateLegacyCategories(data['allWeeks'] as { [weekKey: string]: Week }, days, categories);
+  },
+  2: (data, days) => {
+    if (isRecord(data['allWeeks'])) data['allWeeks'] = migrateLegacyWeekKeys(data['allWeeks'] as { [weekKey: string]: Week }, days).weeks;
+  },
+};
+
+export function createBackup(allWeeks: { [weekKey: string]: Week }, todoPool: Todo[]): PlannerBackup {
+  return { version: BACKUP_VERSION, exportedAt: new Date().toISOString(), allWeeks, todoPool };
+}
+
+/** `categories` are the configured category keys, which upgraded files get lists for. */
+export function parseBackup(text: string, days: readonly string[], categories: readonly CategoryKey[]): BackupParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, issues: [{ path: '(file)', message: 'is not valid JSON' }] };
+  }
+  if (!isRecord(data)) return { ok: false, issues: [{ path: '(file)', message: 'must contain a JSON object' }] };
+
+  const version = data['version'] ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { ok: false, issues: [{ path: 'version', message: 'must be a positive whole number' }] };
+  }
+  if (version > BACKUP_VERSION) {
+    return { ok: false, issues: [{ path: 'version', message: `is ${version}, but this app only reads up to version ${BACKUP_VERSION}` }] };
+  }
+
+  const migrated = JSON.parse(JSON.stringify(data)) as Record<string, unknown>;
+  for (let v = version; v < BACKUP_VERSION; v++) {
+    MIGRATIONS[v](migrated, days, categories);
+  }
+
+  const issues = validateBackup(migrated, days);
+  if (issues.length > 0) return { ok: false, issues };
+  return {
+    ok: true,
+    backup: {
+      version: BACKUP_VERSION,
+      exportedAt: typeof migrated['exportedAt'] === 'string' ? migrated['exportedAt'] : '',
+      allWeeks: migrated['allWeeks'] as { [weekKey: string]: Week },
+      todoPool: migrated['todoPool'] as Todo[],
+    },
+    migratedFrom: version < BACKUP_VERSION ? version : null,
+  };
+}
+
+/** Checks a (migrated) backup object and lists every problem found. */
+export function validateBackup(data: Record<string, unknown>, days: readonly string[]): BackupIssue[] {
+  const issues: BackupIssue[] = [];
+  const seenIds = new Map<number, string>();
+  const checkTodos = (todos: unknown, path: string) => {
+    if (!Array.isArray(todos)) {
+      issues.push({ path, message: 'must be a list of tasks' });
+      return;
+    }
+    todos.forEach((todo, i) => {
+      const todoPath = `${path}[${i}]`;
+      validateTodo(todo, todoPath, issues);
+      if (isRecord(todo) && typeof todo['id'] === 'number') {
+        const first = seenIds.get(todo['id']);
+        if (first) issues.push({ path: `${todoPath}.id`, message: `${todo['id']} is also used by ${first}` });
+        else seenIds.set(todo['id'], todoPath);
+      }
+    });
+  };
+
+  const allWeeks = data['allWeeks'];
+  if (!isRecord(allWeeks)) {
+    issues.push({ path: 'allWeeks', message: 'must be an object of weeks' });
+  } else {
+    for (const [weekKey, week] of Object.entries(allWeeks)) {
+      const weekPath = `allWeeks["${weekKey}"]`;
+      if (!parseWeekKey(weekKey)) issues.push({ path: weekPath, message: 'key must be an ISO week like 2024-W07' });
+      if (!isRecord(week)) {
+        issues.push({ path: weekPath, message: 'must be an object of days' });
+        continue;
+      }
+      for (const day of days) {
+        const dayTasks = week[day];
+        if (!isRecord(dayTasks)) {
+          issues.push({ path: `${weekPath}.${day}`, message: 'is missing' });
+          continue;
+        }
+        for (const [category, tasks] of Object.entries(dayTasks)) {
+          checkTodos(tasks, `${weekPath}.${day}.${category}`);
+        }
+      }
+    }
+  }
+
+  checkTodos(data['todoPool'], 'todoPool');
+  return issues;
+}
+
+function validateTodo(todo: unknown, path: string, issues: BackupIssue[]): void {
+  if (!isRecord(todo)) {
+    issues.push({ path, message: 'must be a task object' });
+    return;
+  }
+  const expect = (key: string, ok: boolean, message: string) => {
+    if (!ok) issues.push({ path: `${path}.${key}`, message });
+  };
+  const isOptional = (key: string, check: (value: unknown) => boolean) => todo[key] === undefined || check(todo[key]);
+
+  expect('id', Number.isFinite(todo['id']), 'must be a number');
+  expect('text', typeof todo['text'] === 'string', 'must be text');
+  expect('duration', typeof todo['duration'] === 'number' && todo['duration'] >= 0, 'must be a number of minutes');
+  for (const key of ['completed', 'urgent', 'important', 'habit']) {
+    expect(key, typeof todo[key] === 'boolean', 'must be true or false');
+  }
+  expect('sourceId', isOptional('sourceId', Number.isFinite), 'must be a number');
+  expect('occurrenceDate', isOptional('occurrenceDate', v => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v)), 'must be a YYYY-MM-DD date');
+  expect('recurrenceExceptions', isOptional('recurrenceExceptions', v => Array.isArray(v) && v.every(d => typeof d === 'string')), 'must be a list of dates');
+  expect('recurrence', isOptional('recurrence', v => isRecord(v) && ['daily', 'weekdays', 'everyNWeeks', 'monthly'].includes(v['type'] as string)), 'must be a recurrence rule');
+  expect('postponedCount', isOptional('postponedCount', v => typeof v === 'number' && v >= 0), 'must be a count');
+  expect('returnedCount', isOptional('returnedCount', v => typeof v === 'number' && v >= 0), 'must be a count');
+  expect('startTime', isOptional('startTime', v => typeof v === 'number' && v >= 0 && v < 24 * 60), 'must be minutes since midnight');
+  expect('calendarUid', isOptional('calendarUid', v => typeof v === 'string'), 'must be text');
+  expect('tags', isOptional('tags', v => Array.isArray(v) && v.every(tag => typeof tag === 'string')), 'must be a list of tags');
+  expect('project', isOptional('project', v => typeof v === 'string'), 'must be text');
+  expect('subtasks', isOptional('subtasks', v => Array.isArray(v) && v.every(isSubtask)), 'must be a list of subtasks');
+  expect('reminder', isOptional('reminder', v => isRecord(v) && ((v['type'] === 'beforeStart' && typeof v['minutes'] === 'number') || (v['type'] === 'atTime' && typeof v['time'] === 'number'))), 'must be a reminder');
+  expect('timeLogs', isOptional('timeLogs', v => Array.isArray(v) && v.every(log => isRecord(log) && Number.isFinite(log['start']) && Number.isFinite(log['end']))), 'must be a list of time logs');
+  expect('updatedAt', isOptional('updatedAt', Number.isFinite), 'must be a timestamp');
+}
+
+function isSubtask(value: unknown): boolean {
+  return isRecord(value) && Number.isFinite(value['id']) && typeof value['text'] === 'string'
+    && typeof value['completed'] === 'boolean' && typeof value['duration'] === 'number' && value['duration'] >= 0;
+}
+
+/**
+ * Works out the planner state an import would produce and what it changes.
+ * Replace discards everything not in the file. Merge matches tasks by ID: new ones
+ * are added where the file has them, within the limits of the configured `categories`,
+ * conflicting ones follow `conflicts`.
+ */
+export function planImport(
+  current: { allWeeks: { [weekKey: string]: Week }; todoPool: Todo[] },
+  backup: PlannerBackup,
+  mode: ImportMode,
+  conflicts: ConflictStrategy,
+  days: readonly string[],
+  categories: readonly CategoryConfig[],
+): ImportPlan {
+  const currentTasks = indexTasks(current.allWeeks, current.todoPool);
+  const importedTasks = indexTasks(backup.allWeeks, backup.todoPool);
+  const plan: ImportPlan = { allWeeks: {}, todoPool: [], added: [], updated: [], removed: [], skipped: [], unchanged: 0 };
+
+  const isSame = (a: IndexedTask, b: IndexedTask) =>
+    describeLocation(a.location) === describeLocation(b.location) && JSON.stringify(a.todo) === JSON.stringify(b.todo);
+  const change = ({ todo, location }: IndexedTask): ImportChange => ({ id: todo.id, text: todo.text, where: describeLocation(location) });
+
+  if (mode === 'replace') {
+    plan.allWeeks = JSON.parse(JSON.stringify(backup.allWeeks));
+    plan.todoPool = JSON.parse(JSON.stringify(backup.todoPool));
+    for (const [id, imported] of importedTasks) {
+      const existing = currentTasks.get(id);
+      if (!existing) plan.added.push(change(imported));
+      else if (isSame(existing, imported)) plan.unchanged++;
+      else plan.updated.push(change(imported));
+    }
+    for (const [id, existing] of currentTasks) {
+      if (!importedTasks.has(id)) plan.removed.push(change(existing));
+    }
+    return plan;
+  }
+
+  plan.allWeeks = JSON.parse(JSON.stringify(current.allWeeks));
+  plan.todoPool = JSON.parse(JSON.stringify(current.todoPool));
+  for (const [id, imported] of importedTasks) {
+    const existing = currentTasks.get(id);
+    if (existing && isSame(existing, imported)) {
+      plan.unchanged++;
+      continue;
+    }
+    if (existing && conflicts === 'current') {
+      plan.skipped.push(change(existing));
+      continue;
+    }
+    if (existing && describeLocation(existing.location) === describeLocation(imported.location)) {
+      replaceIn(plan, existing.location, JSON.parse(JSON.stringify(imported.todo)));
+      plan.updated.push(change(imported));
+      continue;
+    }
+    if (existing) removeFrom(plan, existing.location, id);
+    const placed = insertInto(plan, imported.location, JSON.parse(JSON.stringify(imported.todo)), days, categories);
+    (existing ? plan.updated : plan.added).push(change({ todo: imported.todo, location: placed }));
+  }
+  return plan;
+}
+
+interface IndexedTask {
+  todo: Todo;
+  location: TaskLocation;
+}
+
+function indexTasks(allWeeks: { [weekKey: string]: Week }, todoPool: Todo[]): Map<number, IndexedTask> {
+  const index = new Map<number, IndexedTask>();
+  for (const [weekKey, week] of Object.entries(allWeeks)) {
+    for (const [day, dayTasks] of Object.entries(week)) {
+      for (const [category, tasks] of Object.entries(dayTasks)) {
+        for (const todo of tasks) {
+          index.set(todo.id, { todo, location: { type: 'week', weekKey, day, category } });
+        }
+      }
+    }
+  }
+  for (const todo of todoPool) {
+    index.set(todo.id, { todo, location: { type: 'pool' } });
+  }
+  return index;
+}
+
+function removeFrom(plan: ImportPlan, location: TaskLocation, id: number): void {
+  if (location.type === 'pool') {
+    plan.todoPool = plan.todoPool.filter(t => t.id !== id);
+    return;
+  }
+  const { weekKey, day, category } = location;
+  plan.allWeeks[weekKey][day][category] = plan.allWeeks[weekKey][day][category].filter((t: Todo) => t.id !== id);
+}
+
+function replaceIn(plan: ImportPlan, location: TaskLocation, todo: Todo): void {
+  if (location.type === 'pool') {
+    plan.todoPool = plan.todoPool.map(t => t.id === todo.id ? todo : t);
+    return;
+  }
+  const { weekKey, day, category } = location;
+  plan.allWeeks[weekKey][day][category] = plan.allWeeks[weekKey][day][category].map((t: Todo) => t.id === todo.id ? todo : t);
+}
+
+/**
+ * Inserts a task and returns where it ended up. A category at its limit passes the task on like
+ * a drop would (a second goal becomes a focus task); with no room left it goes to the backlog.
+ * Categories that are not configured are kept, the planner takes them over on import.
+ */
+function insertInto(plan: ImportPlan, location: TaskLocation, todo: Todo, days: readonly string[], categories: readonly CategoryConfig[]): TaskLocation {
+  if (location.type === 'pool') {
+    plan.todoPool.push(todo);
+    return location;
+  }
+  const { weekKey, day } = location;
+  if (!plan.allWeeks[weekKey]) {
+    plan.allWeeks[weekKey] = Object.fromEntries(days.map(d => [d, Object.fromEntries(categories.map(c => [c.key, []]))])) as Week;
+  }
+  const category = categories.some(c => c.key === location.category)
+    ? categoryWithRoom(categories, plan.allWeeks[weekKey][day], location.category)
+    : location.category;
+  if (category === null) {
+    plan.todoPool.push(todo);
+    return { type: 'pool' };
+  }
+  (plan.allWeeks[weekKey][day][category] ??= []).push(todo);
+  return { type: 'week', weekKey, day, category };
+}
+
+function describeLocation(location: TaskLocation): string {
+  if (location.type === 'pool') return 'Backlog';
+  return `${location.weekKey} · ${location.day.charAt(0)}${location.day.slice(1).toLowerCase()} · ${location.category}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,97 @@
+import { CategoryConfig, CategoryKey, DayTasks, DEFAULT_CATEGORIES, Todo, Week } from '../models/todo.model';
+
+// The user's category configuration: loading (and upgrading) what was saved,
+// and the slot rules every way of putting a task on a day has to follow.
+
+/** Colours handed out to new categories, picked so that they differ from the built-in ones. */
+export const CATEGORY_PALETTE = ['#a78bfa', '#34d399', '#f472b6', '#2dd4bf', '#818cf8', '#a3e635'];
+
+/**
+ * Turns the saved configuration into a valid one. Nothing saved means the built-in defaults;
+ * missing or broken fields fall back to the defaults of the category (or of a new one), duplicate
+ * keys are dropped and built-in categories that went missing are added back at the end.
+ */
+export function migrateCategoryConfig(stored: unknown): CategoryConfig[] {
+  if (!Array.isArray(stored)) return DEFAULT_CATEGORIES.map(category => ({ ...category }));
+
+  const result: CategoryConfig[] = [];
+  for (const entry of stored) {
+    if (!isRecord(entry) || typeof entry['key'] !== 'string' || !entry['key'] || result.some(c => c.key === entry['key'])) continue;
+    const key = entry['key'];
+    const defaults = DEFAULT_CATEGORIES.find(c => c.key === key)
+      ?? { key, label: key, color: CATEGORY_PALETTE[result.length % CATEGORY_PALETTE.length], slots: 2, limit: null, urgent: false, important: false };
+    const limit = entry['limit'];
+    result.push({
+      key,
+      label: typeof entry['label'] === 'string' && entry['label'].trim() ? entry['label'].trim() : defaults.label,
+      color: typeof entry['color'] === 'string' && entry['color'] ? entry['color'] : defaults.color,
+      slots: isCount(entry['slots']) ? entry['slots'] : defaults.slots,
+      limit: isCount(limit) ? limit : limit === null ? null : defaults.limit,
+      urgent: typeof entry['urgent'] === 'boolean' ? entry['urgent'] : defaults.urgent,
+      important: typeof entry['important'] === 'boolean' ? entry['important'] : defaults.important,
+    });
+  }
+  for (const category of DEFAULT_CATEGORIES) {
+    if ((category.key === 'goal' || category.key === 'basics') && !result.some(c => c.key === category.key)) result.push({ ...category });
+  }
+  return result;
+}
+
+/** Whether `tasks` leave room for one more under the category's limit, not counting `ignoreId` (a task moved within the slot). */
+export function hasRoom(category: CategoryConfig | undefined, tasks: readonly Todo[] | undefined, ignoreId?: number): boolean {
+  if (!category) return false;
+  if (category.limit === null) return true;
+  return (tasks ?? []).filter(t => t.id !== ignoreId).length < category.limit;
+}
+
+/**
+ * `key` if the day has room for another task in it, otherwise the next category in the configured
+ * order that has (so a taken goal falls back to focus). Chores only take chores. Null if all are full.
+ */
+export function categoryWithRoom(categories: readonly CategoryConfig[], dayTasks: DayTasks | undefined, key: CategoryKey, ignoreId?: number): CategoryKey | null {
+  const start = categories.findIndex(c => c.key === key);
+  if (start === -1) return null;
+  const candidates = categories.slice(start).filter((c, i) => i === 0 || (key !== 'basics' && c.key !== 'basics'));
+  return candidates.find(c => hasRoom(c, dayTasks?.[c.key], ignoreId))?.key ?? null;
+}
+
+/** The first category whose flags match the task's; chores go to basics. */
+export function categoryForFlags(categories: readonly CategoryConfig[], todo: Pick<Todo, 'urgent' | 'important' | 'habit'>): CategoryKey {
+  if (todo.habit) return 'basics';
+  const schedulable = categories.filter(c => c.key !== 'basics');
+  return (schedulable.find(c => c.urgent === todo.urgent && c.important === todo.important) ?? schedulable[0] ?? categories[0]).key;
+}
+
+/** The weeks with an empty list for every category a day is missing, or `weeks` itself if none is. */
+export function withCategoryLists(weeks: { [weekKey: string]: Week }, days: readonly string[], keys: readonly CategoryKey[]): { [weekKey: string]: Week } {
+  let result = weeks;
+  for (const [weekKey, week] of Object.entries(weeks)) {
+    if (days.every(day => keys.every(key => week[day]?.[key]))) continue;
+    if (result === weeks) result = { ...weeks };
+    result[weekKey] = Object.fromEntries(days.map(day => [day, { ...Object.fromEntries(keys.map(key => [key, []])), ...week[day] }])) as Week;
+  }
+  return result;
+}
+
+/** Categories holding tasks that are not configured here, e.g. added on another synced device. */
+export function unknownCategoryKeys(weeks: { [weekKey: string]: Week }, days: readonly string[], keys: readonly CategoryKey[]): CategoryKey[] {
+  const known = new Set(keys);
+  const unknown = new Set<CategoryKey>();
+  for (const week of Object.values(weeks)) {
+    for (const day of days) {
+      for (const [key, tasks] of Object.entries(week[day] ?? {})) {
+        if (!known.has(key) && Array.isArray(tasks) && tasks.length > 0) unknown.add(key);
+      }
+    }
+  }
+  return [...unknown];
+}
+
+/** A whole number of at least one; slots and limits of zero would make a category unusable. */
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { isoWeek, isoWeekKey, parseWeekKey, startOfWeek, toDateKey, weekKeyDates } from './date.utils';
+
+// Runs in Europe/Berlin (see vitest.config.ts): DST starts on 2026-03-29 and ends on 2026-10-25.
+
+describe('isoWeek / isoWeekKey', () => {
+  it('puts late December into week 1 of the next year', () => {
+    expect(isoWeekKey(new Date(2024, 11, 30))).toBe('2025-W01');
+    expect(isoWeek(new Date(2024, 11, 30))).toEqual({ year: 2025, week: 1 });
+  });
+
+  it('puts early January into the last week of the previous year', () => {
+    expect(isoWeekKey(new Date(2021, 0, 3))).toBe('2020-W53');
+    expect(isoWeekKey(new Date(2027, 0, 3))).toBe('2026-W53');
+  });
+
+  it('knows 53-week years', () => {
+    expect(isoWeekKey(new Date(2026, 11, 28))).toBe('2026-W53');
+    expect(isoWeekKey(new Date(2027, 0, 4))).toBe('2027-W01');
+  });
+
+  it('does not depend on the time of day', () => {
+    expect(isoWeekKey(new Date(2027, 0, 3, 0, 0))).toBe('2026-W53');
+    expect(isoWeekKey(new Date(2027, 0, 3, 23, 59))).toBe('2026-W53');
+  });
+
+  it('changes week at midnight on the days DST switches', () => {
+    expect(isoWeekKey(new Date(2026, 2, 29, 23, 30))).toBe('2026-W13');
+    expect(isoWeekKey(new Date(2026, 2, 30, 0, 0))).toBe('2026-W14');
+    expect(isoWeekKey(new Date(2026, 9, 25, 23, 30))).toBe('2026-W43');
+    expect(isoWeekKey(new Date(2026, 9, 26, 0, 0))).toBe('2026-W44');
+  });
+});
+
+describe('parseWeekKey', () => {
+  it('parses valid keys', () => {
+    expect(parseWeekKey('2026-W53')).toEqual({ year: 2026, week: 53 });
+    expect(parseWeekKey('2020-W53')).toEqual({ year: 2020, week: 53 });
+    expect(parseWeekKey('2025-W01')).toEqual({ year: 2025, week: 1 });
+  });
+
+  it('rejects week numbers the year does not have', () => {
+    expect(parseWeekKey('2021-W53')).toBeNull();
+    expect(parseWeekKey('2025-W53')).toBeNull();
+    expect(parseWeekKey('2026-W00')).toBeNull();
+  });
+
+  it('rejects malformed keys', () => {
+    expect(parseWeekKey('2026-W5')).toBeNull();
+    expect(parseWeekKey('2026W05')).toBeNull();
+    expect(parseWeekKey('')).toBeNull();
+  });
+});
+
+describe('weekKeyDates', () => {
+  it('returns Monday to Sunday across the year boundary', () => {
+    expect(weekKeyDates('2026-W53')!.map(toDateKey)).toEqual([
+      '2026-12-28', '2026-12-29', '2026-12-30', '2026-12-31', '2027-01-01', '2027-01-02', '2027-01-03',
+    ]);
+    expect(weekKeyDates('2025-W01')!.map(toDateKey)[0]).toBe('2024-12-30');
+    expect(weekKeyDates('2020-W53')!.map(toDateKey)[6]).toBe('2021-01-03');
+  });
+
+  it('keeps every day at local midnight through DST switches', () => {
+    for (const key of ['2026-W13', '2026-W43']) {
+      const dates = weekKeyDates(key)!;
+      expect(dates).toHaveLength(7);
+      expect(dates.every(d => d.getHours() === 0 && d.getMinutes() === 0)).toBe(true);
+      expect(dates.every(d => isoWeekKey(d) === key)).toBe(true);
+    }
+    expect(toDateKey(weekKeyDates('2026-W13')![6])).toBe('2026-03-29');
+    expect(toDateKey(weekKeyDates('2026-W43')![6])).toBe('2026-10-25');
+  });
+
+  it('returns null for invalid keys', () => {
+    expect(weekKeyDates('2021-W53')).toBeNull();
+  });
+});
+
+describe('startOfWeek', () => {
+  it('finds Monday across the year boundary', () => {
+    expect(toDateKey(startOfWeek(new Date(2027, 0, 3)))).toBe('2026-12-28');
+    expect(toDateKey(startOfWeek(new Date(2021, 0, 3)))).toBe('2020-12-28');
+    expect(toDateKey(startOfWeek(new Date(2024, 11, 30)))).toBe('2024-12-30');
+  });
+
+  it('honours another first day of the week', () => {
+    // Sunday = 6 with Monday = 0
+    expect(toDateKey(startOfWeek(new Date(2026, 11, 28), 6))).toBe('2026-12-27');
+    expect(toDateKey(startOfWeek(new Date(2027, 0, 3), 6))).toBe('2027-01-03');
+  });
+
+  it('returns local midnight on the days DST switches', () => {
+    const spring = startOfWeek(new Date(2026, 2, 29, 12));
+    expect(toDateKey(spring)).toBe('2026-03-23');
+    expect(spring.getHours()).toBe(0);
+    const autumn = startOfWeek(new Date(2026, 9, 25, 23, 30));
+    expect(toDateKey(autumn)).toBe('2026-10-19');
+    expect(autumn.getHours()).toBe(0);
+  });
+});
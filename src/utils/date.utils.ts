@@ -0,0 +1,87 @@
+// Small, non-mutating date helpers. All dates are interpreted in local time.
+
+/** Formats a date as a local `YYYY-MM-DD` key. */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** Parses a `YYYY-MM-DD` key into a Date at local midnight. */
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** Day of the week with Monday as 0 and Sunday as 6, matching TaskService.daysOfWeek. */
+export function mondayBasedDay(date: Date): number {
+  const day = date.getDay();
+  return day === 0 ? 6 : day - 1;
+}
+
+/** Whole calendar days from `a` to `b`, unaffected by DST shifts. */
+export function daysBetween(a: Date, b: Date): number {
+  const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.round((utcB - utcA) / 86400000);
+}
+
+/**
+ * ISO 8601 week of a date: weeks start on Monday and week 1 is the week that contains
+ * the year's first Thursday, so the week-numbering year can differ from the calendar year
+ * around New Year. Computed on UTC calendar dates, so DST shifts and the time of day never matter.
+ */
+export function isoWeek(date: Date): { year: number; week: number } {
+  const thursday = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate() + 3 - mondayBasedDay(date)));
+  const year = thursday.getUTCFullYear();
+  const week = 1 + Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * 86400000));
+  return { year, week };
+}
+
+/** The storage key of the week containing `date`, e.g. `2026-W42`. */
+export function isoWeekKey(date: Date): string {
+  const { year, week } = isoWeek(date);
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/** Parses a `YYYY-Www` key; returns null for malformed keys and week numbers the year does not have. */
+export function parseWeekKey(key: string): { year: number; week: number } | null {
+  const match = key.match(/^(\d{4})-W(\d{2})$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const week = Number(match[2]);
+  if (week < 1 || week > isoWeeksInYear(year)) return null;
+  return { year, week };
+}
+
+/** Monday (local midnight) of an ISO week. */
+export function isoWeekStart(year: number, week: number): Date {
+  const january4 = new Date(year, 0, 4); // always in week 1
+  return addDays(january4, (week - 1) * 7 - mondayBasedDay(january4));
+}
+
+/** The seven dates (Monday to Sunday) of the week stored under `key`, or null if the key is not an ISO week key. */
+export function weekKeyDates(key: string): Date[] | null {
+  const parsed = parseWeekKey(key);
+  if (!parsed) return null;
+  const monday = isoWeekStart(parsed.year, parsed.week);
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+}
+
+export function isoWeeksInYear(year: number): number {
+  // December 28 is always in the last week of its year.
+  return isoWeek(new Date(year, 11, 28)).week;
+}
+
+/** Local midnight of the first day of the week containing `date`, for a week starting on `firstDay` (Monday = 0). */
+export function startOfWeek(date: Date, firstDay = 0): Date {
+  return addDays(startOfDay(date), -((mondayBasedDay(date) - firstDay + 7) % 7));
+}
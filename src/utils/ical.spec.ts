@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { ICalExportEntry, buildICalendar, parseICalendar, parseTaskUid, taskUid } from './ical';
+
+const NOW = new Date(Date.UTC(2026, 9, 14, 8, 0));
+
+function entry(changes: Partial<ICalExportEntry> = {}): ICalExportEntry {
+  return { uid: taskUid(1), summary: 'Write report', date: new Date(2026, 9, 14), durationMinutes: 60, categories: [], completed: false, ...changes };
+}
+
+describe('task UIDs', () => {
+  it('map back to the task ID', () => {
+    expect(taskUid(1718000000000)).toBe('planner-1718000000000@weekly-planner');
+    expect(parseTaskUid(taskUid(1718000000000))).toBe(1718000000000);
+  });
+
+  it('ignore UIDs made elsewhere', () => {
+    expect(parseTaskUid('planner-1@example.com')).toBeNull();
+    expect(parseTaskUid('abc-123')).toBeNull();
+    expect(parseTaskUid(null)).toBeNull();
+  });
+});
+
+describe('buildICalendar and parseICalendar', () => {
+  it('round-trip a timed event', () => {
+    const exported = entry({ startTime: 9 * 60 + 30, durationMinutes: 90, categories: ['Focus', 'deep-work'], completed: true });
+    const [parsed] = parseICalendar(buildICalendar([exported], 'VEVENT', NOW));
+    expect(parsed).toEqual({
+      uid: taskUid(1),
+      summary: 'Write report',
+      date: new Date(2026, 9, 14),
+      startTime: 9 * 60 + 30,
+      durationMinutes: 90,
+      categories: ['Focus', 'deep-work'],
+      completed: true,
+    });
+  });
+
+  it('round-trip an all-day event with its planned duration', () => {
+    const text = buildICalendar([entry({ durationMinutes: 45 })], 'VEVENT', NOW);
+    expect(text).toContain('DTSTART;VALUE=DATE:20261014\r\n');
+    expect(text).toContain('X-PLANNER-DURATION:PT45M\r\n');
+    expect(parseICalendar(text)[0]).toMatchObject({ date: new Date(2026, 9, 14), startTime: null, durationMinutes: 45, completed: false });
+  });
+
+  it('round-trip to-dos', () => {
+    const text = buildICalendar([entry({ durationMinutes: 120, completed: true }), entry({ uid: taskUid(2), summary: 'Call', startTime: 14 * 60 })], 'VTODO', NOW);
+    expect(text).toContain('STATUS:COMPLETED\r\n');
+    expect(parseICalendar(text)).toMatchObject([
+      { uid: taskUid(1), startTime: null, durationMinutes: 120, completed: true },
+      { uid: taskUid(2), summary: 'Call', startTime: 14 * 60, durationMinutes: 60, completed: false },
+    ]);
+  });
+
+  it('escapes and restores special characters', () => {
+    const summary = 'Call Anna; bring notes, slides\nand the C:\\ drive';
+    const text = buildICalendar([entry({ summary, categories: ['Work, mostly'] })], 'VEVENT', NOW);
+    expect(text).toContain('SUMMARY:Call Anna\\; bring notes\\, slides\\nand the C:\\\\ drive\r\n');
+    const [parsed] = parseICalendar(text);
+    expect(parsed.summary).toBe(summary);
+    expect(parsed.categories).toEqual(['Work, mostly']);
+  });
+
+  it('folds long lines to 75 octets and unfolds them again', () => {
+    const summary = 'Über-long task name with umlauts (äöü) repeated '.repeat(4).trim();
+    const text = buildICalendar([entry({ summary })], 'VEVENT', NOW);
+    const lines = text.split('\r\n');
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(parseICalendar(text)[0].summary).toBe(summary);
+  });
+});
+
+describe('parseICalendar', () => {
+  it('reads events from other calendars', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:abc-123',
+      'SUMMARY:Dentist',
+      'DTSTART:20261014T080000Z',
+      'DTEND:20261014T084500Z',
+      'CATEGORIES:Health,Personal',
+      'DESCRIPTION:Folded by another app,',
+      '\tcontinued with a tab',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\n');
+    expect(parseICalendar(text)).toEqual([{
+      uid: 'abc-123',
+      summary: 'Dentist',
+      date: new Date(2026, 9, 14),
+      // 08:00 UTC is 10:00 in Berlin during summer time.
+      startTime: 10 * 60,
+      durationMinutes: 45,
+      categories: ['Health', 'Personal'],
+      completed: false,
+    }]);
+  });
+
+  it('skips what is not an event or a to-do', () => {
+    expect(parseICalendar('BEGIN:VCALENDAR\r\nBEGIN:VJOURNAL\r\nSUMMARY:Notes\r\nEND:VJOURNAL\r\nEND:VCALENDAR\r\n')).toEqual([]);
+  });
+});
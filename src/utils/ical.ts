@@ -0,0 +1,224 @@
+// Minimal RFC 5545 (iCalendar) support: just enough to publish scheduled tasks
+// to calendar apps and to read events back in.
+
+const UID_DOMAIN = 'weekly-planner';
+const PRODUCT_ID = '-//Weekly Planner//Planner Export//EN';
+
+export type ICalComponent = 'VEVENT' | 'VTODO';
+
+export interface ICalExportEntry {
+  uid: string;
+  summary: string;
+  date: Date;
+  /** Minutes since midnight; without it the entry is written as an all-day item. */
+  startTime?: number;
+  durationMinutes: number;
+  categories: string[];
+  completed: boolean;
+}
+
+export interface ICalImportEntry {
+  uid: string | null;
+  summary: string;
+  /** Local calendar date of DTSTART (or DUE for to-dos), if the entry had one. */
+  date: Date | null;
+  /** Minutes since midnight for timed entries, null for all-day ones. */
+  startTime: number | null;
+  durationMinutes: number | null;
+  categories: string[];
+  completed: boolean;
+}
+
+/** Stable UID for a task, so re-importing an exported file updates instead of duplicating. */
+export function taskUid(todoId: number): string {
+  return `planner-${todoId}@${UID_DOMAIN}`;
+}
+
+/** Returns the task ID encoded by taskUid(), or null for UIDs created elsewhere. */
+export function parseTaskUid(uid: string | null): number | null {
+  const match = uid?.match(new RegExp(`^planner-(\\d+)@${UID_DOMAIN}$`));
+  return match ? Number(match[1]) : null;
+}
+
+export function buildICalendar(entries: ICalExportEntry[], component: ICalComponent = 'VEVENT', now = new Date()): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+  const stamp = formatDateTimeUtc(now);
+
+  for (const entry of entries) {
+    lines.push(`BEGIN:${component}`);
+    lines.push(`UID:${entry.uid}`);
+    lines.push(`DTSTAMP:${stamp}`);
+    lines.push(`SUMMARY:${escapeText(entry.summary)}`);
+    const timed = entry.startTime != null;
+    const start = timed
+      ? new Date(entry.date.getFullYear(), entry.date.getMonth(), entry.date.getDate(), 0, entry.startTime!)
+      : entry.date;
+    lines.push(timed ? `DTSTART:${formatDateTime(start)}` : `DTSTART;VALUE=DATE:${formatDate(start)}`);
+    if (component === 'VEVENT' && timed) {
+      lines.push(`DTEND:${formatDateTime(new Date(start.getTime() + entry.durationMinutes * 60000))}`);
+      if (entry.completed) lines.push('X-PLANNER-COMPLETED:TRUE');
+    } else if (component === 'VEVENT') {
+      // All-day event; the planned effort is kept in an extension property and the description.
+      const end = new Date(entry.date.getFullYear(), entry.date.getMonth(), entry.date.getDate() + 1);
+      lines.push(`DTEND;VALUE=DATE:${formatDate(end)}`);
+      lines.push(`X-PLANNER-DURATION:${formatDuration(entry.durationMinutes)}`);
+      lines.push(`DESCRIPTION:${escapeText(`Planned: ${entry.durationMinutes} min`)}`);
+      lines.push('TRANSP:TRANSPARENT');
+      if (entry.completed) lines.push('X-PLANNER-COMPLETED:TRUE');
+    } else {
+      lines.push(`DURATION:${formatDuration(entry.durationMinutes)}`);
+      lines.push(`STATUS:${entry.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+    }
+    if (entry.categories.length > 0) {
+      lines.push(`CATEGORIES:${entry.categories.map(escapeText).join(',')}`);
+    }
+    lines.push(`END:${component}`);
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function parseICalendar(text: string): ICalImportEntry[] {
+  const entries: ICalImportEntry[] = [];
+  let current: Map<string, { params: Record<string, string>; value: string }> | null = null;
+  let currentType: ICalComponent | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    const { name, params, value } = property;
+
+    if (name === 'BEGIN' && (value === 'VEVENT' || value === 'VTODO')) {
+      current = new Map();
+      currentType = value;
+    } else if (name === 'END' && current && value === currentType) {
+      entries.push(toImportEntry(current, currentType));
+      current = null;
+      currentType = null;
+    } else if (current && !current.has(name)) {
+      current.set(name, { params, value });
+    }
+  }
+  return entries;
+}
+
+function toImportEntry(props: Map<string, { params: Record<string, string>; value: string }>, type: ICalComponent): ICalImportEntry {
+  const start = props.get('DTSTART') ?? (type === 'VTODO' ? props.get('DUE') : undefined);
+  const startDate = start ? parseDateValue(start.value) : null;
+
+  let durationMinutes: number | null = null;
+  const planned = props.get('X-PLANNER-DURATION') ?? props.get('DURATION');
+  if (planned) {
+    durationMinutes = parseDuration(planned.value);
+  } else if (start && props.get('DTEND') && start.value.includes('T')) {
+    const end = parseDateValue(props.get('DTEND')!.value);
+    if (startDate && end) durationMinutes = Math.round((end.getTime() - startDate.getTime()) / 60000);
+  }
+
+  const status = props.get('STATUS')?.value.toUpperCase();
+  return {
+    uid: props.get('UID')?.value ?? null,
+    summary: unescapeText(props.get('SUMMARY')?.value ?? '').trim(),
+    date: startDate ? new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate()) : null,
+    startTime: startDate && start!.value.includes('T') ? startDate.getHours() * 60 + startDate.getMinutes() : null,
+    durationMinutes: durationMinutes !== null && durationMinutes > 0 ? durationMinutes : null,
+    categories: splitList(props.get('CATEGORIES')?.value ?? '').map(unescapeText).map(c => c.trim()).filter(Boolean),
+    completed: status === 'COMPLETED' || props.get('X-PLANNER-COMPLETED')?.value.toUpperCase() === 'TRUE',
+  };
+}
+
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.trim() !== '');
+}
+
+function parseProperty(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  // The first unquoted colon separates name/parameters from the value.
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** Splits a comma-separated value, ignoring escaped commas. */
+function splitList(value: string): string[] {
+  return value === '' ? [] : value.split(/(?<!\\),/);
+}
+
+function parseDateValue(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', utc] = match;
+  return utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+}
+
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w = '0', d = '0', h = '0', m = '0', s = '0'] = match;
+  const minutes = ((+w * 7 + +d) * 24 + +h) * 60 + +m + Math.round(+s / 60);
+  return sign === '-' ? -minutes : minutes;
+}
+
+function formatDuration(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `PT${h ? `${h}H` : ''}${m || !h ? `${m}M` : ''}`;
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** Local ("floating") date-time, so the event shows at the same clock time in any zone. */
+function formatDateTime(date: Date): string {
+  return `${formatDate(date)}T${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}00`;
+}
+
+function formatDateTimeUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/** Folds content lines longer than 75 octets, as required by RFC 5545. */
+function foldLine(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = new TextEncoder().encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,136 @@
+import { Todo, Week, CategoryConfig, CategoryKey, DEFAULT_CATEGORIES, TaskPriority, getTaskPriority, taskDuration } from '../models/todo.model';
+import { SchedulingPlanItem } from '../services/gemini.service';
+
+// Deterministic, offline counterpart to GeminiService.getSchedulingPlan.
+// It follows the same rules the AI prompt describes, so its output can be
+// previewed and applied exactly like an AI plan, or used as a baseline to compare against.
+
+export type UnscheduledReason = 'habit' | 'too-long' | 'capacity' | 'slots' | 'no-days';
+
+export interface UnscheduledTask {
+  id: number;
+  reason: UnscheduledReason;
+  detail: string;
+}
+
+export interface LocalSchedulingResult {
+  plan: SchedulingPlanItem[];
+  unscheduled: UnscheduledTask[];
+}
+
+export interface LocalSchedulerOptions {
+  days: string[];
+  dailyCapacity?: number;
+  /** Capacity per day, overriding `dailyCapacity`; days with 0 (days off) get nothing. */
+  capacities?: Record<string, number>;
+  /** The configured categories; a category takes as many tasks as it has slots, or fewer if its limit is lower. */
+  categories?: readonly CategoryConfig[];
+  /** Index into `days` of the first day that may receive tasks (e.g. today). */
+  firstDayIndex?: number;
+}
+
+const DEFAULT_DAILY_CAPACITY = 480;
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { ASAP: 0, SOON: 1, PENDING: 2, LEISURE: 3, BASICS: 4 };
+
+// The urgent/important flags of each priority, matched against those of the categories.
+const PRIORITY_FLAGS: Record<Exclude<TaskPriority, 'BASICS'>, { urgent: boolean; important: boolean }> = {
+  ASAP: { urgent: true, important: true },
+  SOON: { urgent: false, important: true },
+  PENDING: { urgent: true, important: false },
+  LEISURE: { urgent: false, important: false },
+};
+
+// Where in the week each priority starts looking for room, so that
+// ASAP/SOON land early in the week and lower priorities drift later.
+const PRIORITY_START_DAY: Record<TaskPriority, number> = { ASAP: 0, SOON: 0, PENDING: 2, LEISURE: 4, BASICS: 0 };
+
+export function createLocalSchedulingPlan(tasks: Todo[], week: Week, options: LocalSchedulerOptions): LocalSchedulingResult {
+  const capacityOf = (day: string) => options.capacities?.[day] ?? options.dailyCapacity ?? DEFAULT_DAILY_CAPACITY;
+  const categories = options.categories ?? DEFAULT_CATEGORIES;
+  const slotCounts = new Map(categories.map(c => [c.key, Math.min(c.slots, c.limit ?? Infinity)]));
+  const openDays = options.days.slice(Math.max(0, options.firstDayIndex ?? 0)).filter(day => capacityOf(day) > 0);
+  const largestCapacity = Math.max(0, ...openDays.map(capacityOf));
+
+  const load = new Map<string, number>();
+  const used = new Map<string, number>();
+  for (const day of openDays) {
+    const dayTasks = week[day];
+    load.set(day, (Object.values(dayTasks ?? {}) as Todo[][]).flat().reduce((sum: number, t: Todo) => sum + taskDuration(t), 0));
+    for (const category of slotCounts.keys()) {
+      used.set(slotKey(day, category), dayTasks?.[category]?.length ?? 0);
+    }
+  }
+
+  const ordered = [...tasks].sort((a, b) =>
+    PRIORITY_RANK[getTaskPriority(a)] - PRIORITY_RANK[getTaskPriority(b)] ||
+    taskDuration(b) - taskDuration(a) ||
+    a.id - b.id
+  );
+
+  const plan: SchedulingPlanItem[] = [];
+  const unscheduled: UnscheduledTask[] = [];
+
+  for (const task of ordered) {
+    const priority = getTaskPriority(task);
+    const duration = taskDuration(task);
+
+    if (priority === 'BASICS') {
+      unscheduled.push({ id: task.id, reason: 'habit', detail: 'Recurring chores are not organized automatically.' });
+      continue;
+    }
+    if (openDays.length === 0) {
+      unscheduled.push({ id: task.id, reason: 'no-days', detail: 'No remaining working days in this week.' });
+      continue;
+    }
+    if (duration > largestCapacity) {
+      unscheduled.push({ id: task.id, reason: 'too-long', detail: `Takes ${duration}m, more than a full day (${largestCapacity}m).` });
+      continue;
+    }
+
+    let hadCapacity = false;
+    let placed = false;
+    const start = Math.min(PRIORITY_START_DAY[priority], openDays.length - 1);
+    // Categories are tried in order across the whole week, so a second ASAP task
+    // takes Tuesday's goal slot before falling back to Monday's focus.
+    const candidates = categoriesFor(priority, categories);
+    for (const category of candidates) {
+      for (let i = 0; i < openDays.length && !placed; i++) {
+        const day = openDays[(start + i) % openDays.length];
+        if ((load.get(day) ?? 0) + duration > capacityOf(day)) continue;
+        hadCapacity = true;
+        if ((used.get(slotKey(day, category)) ?? 0) >= (slotCounts.get(category) ?? 0)) continue;
+
+        plan.push({ id: task.id, day, category });
+        load.set(day, (load.get(day) ?? 0) + duration);
+        used.set(slotKey(day, category), (used.get(slotKey(day, category)) ?? 0) + 1);
+        placed = true;
+      }
+      if (placed) break;
+    }
+
+    if (!placed) {
+      unscheduled.push(hadCapacity
+        ? { id: task.id, reason: 'slots', detail: `No free ${candidates.map(c => categories.find(config => config.key === c)?.label).join('/') || 'matching'} slot on a day with enough time left.` }
+        : { id: task.id, reason: 'capacity', detail: `No day has ${duration}m of capacity left.` });
+    }
+  }
+
+  return { plan, unscheduled };
+}
+
+/**
+ * Categories to try, in order: those whose flags match the priority, in the configured order.
+ * ASAP tasks fall back to the SOON ones (a second goal becomes a focus task). Chores are left out.
+ */
+function categoriesFor(priority: TaskPriority, categories: readonly CategoryConfig[]): CategoryKey[] {
+  const matching = (p: Exclude<TaskPriority, 'BASICS'>) => categories
+    .filter(c => c.key !== 'basics' && c.urgent === PRIORITY_FLAGS[p].urgent && c.important === PRIORITY_FLAGS[p].important)
+    .map(c => c.key);
+  if (priority === 'BASICS') return [];
+  return priority === 'ASAP' ? [...matching('ASAP'), ...matching('SOON')] : matching(priority);
+}
+
+function slotKey(day: string, category: CategoryKey): string {
+  return `${day}:${category}`;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { CategoryConfig, DEFAULT_CATEGORIES } from '../models/todo.model';
+import { formatDuration, parseQuickAdd } from './quick-add';
+import { toDateKey } from './date.utils';
+
+// A Wednesday
+const NOW = new Date(2026, 9, 14, 10, 30);
+
+function parse(input: string, categories?: readonly CategoryConfig[]) {
+  return parseQuickAdd(input, NOW, categories);
+}
+
+describe('parseQuickAdd', () => {
+  it('reads the documented example', () => {
+    const result = parse('Write report 90m fri !focus #work');
+    expect(result.text).toBe('Write report');
+    expect(result.duration).toBe(90);
+    expect(toDateKey(result.date!)).toBe('2026-10-16');
+    expect(result.category).toBe('focus');
+    expect(result.tags).toEqual(['work']);
+    expect(result.parts.map(p => p.kind)).toEqual(['duration', 'date', 'category', 'tag']);
+  });
+
+  it('leaves plain text alone', () => {
+    const result = parse('Call the plumber');
+    expect(result).toMatchObject({ text: 'Call the plumber', duration: null, date: null, category: null, tags: [], recurrence: null, parts: [] });
+  });
+
+  describe('durations', () => {
+    it.each([
+      ['45m', 45], ['45min', 45], ['1h', 60], ['1.5h', 90], ['1,5h', 90], ['1h30m', 90], ['2h15', 135],
+    ])('reads %s', (word, minutes) => {
+      expect(parse(`Task ${word}`).duration).toBe(minutes);
+    });
+
+    it('keeps numbers without a unit and implausible durations in the text', () => {
+      expect(parse('Buy 500 apples').duration).toBeNull();
+      expect(parse('Run 2000m').text).toBe('Run 2000m');
+    });
+
+    it('only reads the first duration', () => {
+      const result = parse('Task 30m 45m');
+      expect(result.duration).toBe(30);
+      expect(result.text).toBe('Task 45m');
+    });
+  });
+
+  describe('dates', () => {
+    it('reads relative days', () => {
+      expect(toDateKey(parse('Task today').date!)).toBe('2026-10-14');
+      expect(toDateKey(parse('Task tomorrow').date!)).toBe('2026-10-15');
+      expect(toDateKey(parse('Task wed').date!)).toBe('2026-10-14');
+      expect(toDateKey(parse('Task mon').date!)).toBe('2026-10-19');
+      expect(toDateKey(parse('Task next fri').date!)).toBe('2026-10-23');
+    });
+
+    it('reads written dates', () => {
+      expect(toDateKey(parse('Task 2027-01-03').date!)).toBe('2027-01-03');
+      expect(toDateKey(parse('Task 03.01.27').date!)).toBe('2027-01-03');
+      expect(toDateKey(parse('Task 01.11.').date!)).toBe('2026-11-01');
+      expect(toDateKey(parse('Task 01.02.').date!)).toBe('2027-02-01');
+      expect(parse('Task 31.02.').date).toBeNull();
+    });
+
+    it('reads a weekday at the start or the end', () => {
+      expect(toDateKey(parse('fri Call mom').date!)).toBe('2026-10-16');
+      expect(parse('fri Call mom').text).toBe('Call mom');
+      expect(toDateKey(parse('Call mom friday').date!)).toBe('2026-10-16');
+      expect(toDateKey(parse('Call mom fri 30m #family').date!)).toBe('2026-10-16');
+    });
+
+    it('keeps a weekday in the middle of the text', () => {
+      const result = parse('Buy sun cream');
+      expect(result.text).toBe('Buy sun cream');
+      expect(result.date).toBeNull();
+      expect(parse('Prepare mon meeting notes').text).toBe('Prepare mon meeting notes');
+      expect(parse('Plan next sat trip').date).toBeNull();
+    });
+
+    it('keeps relative days in the middle of the text', () => {
+      const result = parse('Discuss tomorrow agenda');
+      expect(result.text).toBe('Discuss tomorrow agenda');
+      expect(result.date).toBeNull();
+      expect(parse('Plan today list').date).toBeNull();
+      expect(toDateKey(parse('tmr Discuss agenda').date!)).toBe('2026-10-15');
+    });
+
+    it('reads the last weekday when an earlier one is part of the text', () => {
+      const result = parse('Buy sun cream fri');
+      expect(result.text).toBe('Buy sun cream');
+      expect(toDateKey(result.date!)).toBe('2026-10-16');
+    });
+  });
+
+  describe('categories', () => {
+    it('reads keys, names and priority words', () => {
+      expect(parse('Task !goal').category).toBe('goal');
+      expect(parse('Task !chores').category).toBe('basics');
+      expect(parse('Task !asap').category).toBe('goal');
+      expect(parse('Task !soon').category).toBe('focus');
+      expect(parse('Task !pending').category).toBe('work');
+    });
+
+    it('reads configured categories', () => {
+      const categories = [...DEFAULT_CATEGORIES, { key: 'custom-1', label: 'Side Project', color: '#a78bfa', slots: 2, limit: null, urgent: false, important: true }];
+      expect(parse('Task !sideproject', categories).category).toBe('custom-1');
+      expect(parse('Task !custom-1', categories).category).toBe('custom-1');
+    });
+
+    it('keeps unknown categories in the text', () => {
+      expect(parse('Task !nope').text).toBe('Task !nope');
+    });
+  });
+
+  it('collects tags once, lower-cased', () => {
+    expect(parse('Task #Health #health #run').tags).toEqual(['health', 'run']);
+  });
+
+  describe('recurrence', () => {
+    it('reads the documented forms', () => {
+      expect(parse('Stretch every day').recurrence).toEqual({ type: 'daily' });
+      expect(parse('Stretch every weekday').recurrence).toEqual({ type: 'weekdays', weekdays: [0, 1, 2, 3, 4] });
+      expect(parse('gym every mon, wed and fri').recurrence).toEqual({ type: 'weekdays', weekdays: [0, 2, 4] });
+      expect(parse('Bins every 2 weeks on thu').recurrence).toEqual({ type: 'everyNWeeks', everyWeeks: 2, weekday: 3, startDate: '2026-10-15' });
+      expect(parse('Rent every month on the 1st').recurrence).toEqual({ type: 'monthly', dayOfMonth: 1 });
+      expect(parse('Review every month').recurrence).toEqual({ type: 'monthly', dayOfMonth: 14 });
+    });
+
+    it('reads "daily" at the start or the end', () => {
+      expect(parse('Stretch daily').recurrence).toEqual({ type: 'daily' });
+      expect(parse('daily Stretch').text).toBe('Stretch');
+      expect(parse('Stretch daily 10m').recurrence).toEqual({ type: 'daily' });
+    });
+
+    it('keeps "daily" in the middle of the text', () => {
+      const result = parse('Write daily report');
+      expect(result.text).toBe('Write daily report');
+      expect(result.recurrence).toBeNull();
+    });
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats hours and minutes', () => {
+    expect(formatDuration(45)).toBe('45m');
+    expect(formatDuration(60)).toBe('1h');
+    expect(formatDuration(135)).toBe('2h 15m');
+  });
+});
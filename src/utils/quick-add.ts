@@ -0,0 +1,283 @@
+import { CategoryConfig, CategoryKey, DEFAULT_CATEGORIES, RecurrenceRule } from '../models/todo.model';
+import { addDays, mondayBasedDay, startOfDay, toDateKey } from './date.utils';
+
+// Inline syntax for adding tasks, e.g. "Write report 90m fri !focus" or "gym every mon wed".
+//
+//   90m, 1h, 1.5h, 1h30m     duration
+//   today, tomorrow, fri     the next such day (today included); "next fri" skips to next week
+//   2024-03-15, 15.03.(24)   a date
+//   !focus, !goal, ...       category, by key or by name without spaces; !asap, !soon and !pending name them by priority
+//   #health                  tag
+//   every day, daily, every weekday, every mon wed, every 2 weeks fri, every month (on the 15th)
+//                            recurrence; the task becomes a chore
+//
+// Everything else is the task's text. A relative day, a weekday or "daily" on its own is also an
+// ordinary word ("Discuss tomorrow agenda", "Buy sun cream", "Write daily report"), so it only
+// counts at the start or the end of the input,
+// with nothing but other recognised parts between it and that end.
+
+export interface QuickAddResult {
+  text: string;
+  duration: number | null;
+  date: Date | null;
+  category: CategoryKey | null;
+  tags: string[];
+  recurrence: RecurrenceRule | null;
+  /** What was recognised, in the order it was written, for a preview. */
+  parts: QuickAddPart[];
+}
+
+export interface QuickAddPart {
+  kind: 'duration' | 'date' | 'category' | 'tag' | 'recurrence';
+  /** The words as typed. */
+  source: string;
+}
+
+const WEEKDAYS = new Map<string, number>([
+  ['mon', 0], ['monday', 0],
+  ['tue', 1], ['tues', 1], ['tuesday', 1],
+  ['wed', 2], ['wednesday', 2],
+  ['thu', 3], ['thur', 3], ['thurs', 3], ['thursday', 3],
+  ['fri', 4], ['friday', 4],
+  ['sat', 5], ['saturday', 5],
+  ['sun', 6], ['sunday', 6],
+]);
+
+const PRIORITY_ALIASES: [string, CategoryKey][] = [
+  ['asap', 'goal'],
+  ['soon', 'focus'],
+  ['pending', 'work'],
+  ['chore', 'basics'],
+];
+
+/** At most a day; longer values are more likely part of the text (e.g. "buy 500g"). */
+const MAX_DURATION = 24 * 60;
+
+export function parseQuickAdd(input: string, now: Date = new Date(), categories: readonly CategoryConfig[] = DEFAULT_CATEGORIES): QuickAddResult {
+  const today = startOfDay(now);
+  const aliases = categoryAliases(categories);
+  const words = input.trim().split(/\s+/).filter(Boolean);
+  const result: QuickAddResult = { text: '', duration: null, date: null, category: null, tags: [], recurrence: null, parts: [] };
+  const textWords: string[] = [];
+
+  for (let i = 0; i < words.length; ) {
+    const atEdge: EdgeCheck = used => textWords.length === 0 || onlyParts(words.slice(i + used), today, aliases);
+    const consumed = readPart(words, i, today, result, aliases, atEdge);
+    if (consumed > 0) {
+      i += consumed;
+    } else {
+      textWords.push(words[i]);
+      i++;
+    }
+  }
+
+  result.text = textWords.join(' ');
+  return result;
+}
+
+/** A short description of each recognised part, e.g. "Fri 15 Mar" or "1h 30m". */
+export function describeQuickAddPart(part: QuickAddPart, result: QuickAddResult): string {
+  switch (part.kind) {
+    case 'duration':
+      return formatDuration(result.duration ?? 0);
+    case 'date':
+      return result.date ? result.date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' }) : part.source;
+    case 'category':
+      return result.category ?? part.source;
+    case 'tag':
+      return `#${normalizeTag(part.source)}`;
+    case 'recurrence':
+      return part.source;
+  }
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').toLowerCase();
+}
+
+// Each reader looks at the words from `i`, records what it understood and returns how many
+// words it used (0 if none). A value that was already set is not overwritten, so a second
+// date or duration stays part of the text.
+
+/** Whether a part of `used` words read at the current position is at the start or the end of the input. */
+type EdgeCheck = (used: number) => boolean;
+
+function readPart(words: string[], i: number, today: Date, result: QuickAddResult, aliases: Map<string, CategoryKey>, atEdge: EdgeCheck): number {
+  return readRecurrence(words, i, today, result, atEdge)
+    || readDuration(words, i, result)
+    || readDate(words, i, today, result, atEdge)
+    || readCategory(words, i, result, aliases)
+    || readTag(words, i, result);
+}
+
+/** True if every one of `words` is read as a part, i.e. none of them would be text. */
+function onlyParts(words: string[], today: Date, aliases: Map<string, CategoryKey>): boolean {
+  const scratch: QuickAddResult = { text: '', duration: null, date: null, category: null, tags: [], recurrence: null, parts: [] };
+  for (let i = 0; i < words.length; ) {
+    // Everything before `i` has been read as a part, so this is the start of what is left.
+    const consumed = readPart(words, i, today, scratch, aliases, () => true);
+    if (consumed === 0) return false;
+    i += consumed;
+  }
+  return true;
+}
+
+function readDuration(words: string[], i: number, result: QuickAddResult): number {
+  if (result.duration !== null) return 0;
+  const match = /^(?:(\d+(?:[.,]\d+)?)h)?(?:(\d+)(?:m|min|mins)?)?$/i.exec(words[i]);
+  if (!match || (!match[1] && !/(m|min|mins)$/i.test(words[i]))) return 0;
+  const minutes = Math.round(Number((match[1] ?? '0').replace(',', '.')) * 60) + Number(match[2] ?? 0);
+  if (minutes <= 0 || minutes > MAX_DURATION) return 0;
+  result.duration = minutes;
+  result.parts.push({ kind: 'duration', source: words[i] });
+  return 1;
+}
+
+function readDate(words: string[], i: number, today: Date, result: QuickAddResult, atEdge: EdgeCheck): number {
+  if (result.date !== null) return 0;
+  const word = words[i].toLowerCase();
+  let date: Date | null = null;
+  let used = 1;
+
+  if (word === 'today') date = atEdge(1) ? today : null;
+  else if (word === 'tomorrow' || word === 'tmr') date = atEdge(1) ? addDays(today, 1) : null;
+  else if (WEEKDAYS.has(word)) date = atEdge(1) ? nextWeekday(today, WEEKDAYS.get(word)!) : null;
+  else if (word === 'next' && WEEKDAYS.has(words[i + 1]?.toLowerCase())) {
+    if (!atEdge(2)) return 0;
+    // The given weekday in the week after this one.
+    const thisMonday = addDays(today, -mondayBasedDay(today));
+    date = addDays(thisMonday, 7 + WEEKDAYS.get(words[i + 1].toLowerCase())!);
+    used = 2;
+  } else date = parseDate(word, today);
+
+  if (!date) return 0;
+  result.date = date;
+  result.parts.push({ kind: 'date', source: words.slice(i, i + used).join(' ') });
+  return used;
+}
+
+/** Names a category can be picked by; keys and names win over the priority words. */
+function categoryAliases(categories: readonly CategoryConfig[]): Map<string, CategoryKey> {
+  const configured = new Set(categories.map(c => c.key));
+  return new Map<string, CategoryKey>([
+    ...PRIORITY_ALIASES.filter(([, key]) => configured.has(key)),
+    ...categories.map(c => [c.label.toLowerCase().replace(/\s+/g, ''), c.key] as [string, CategoryKey]),
+    ...categories.map(c => [c.key.toLowerCase(), c.key] as [string, CategoryKey]),
+  ]);
+}
+
+function readCategory(words: string[], i: number, result: QuickAddResult, aliases: Map<string, CategoryKey>): number {
+  const match = /^!([\w-]+)$/.exec(words[i]);
+  const category = match ? aliases.get(match[1].toLowerCase()) : undefined;
+  if (!category || result.category !== null) return 0;
+  result.category = category;
+  result.parts.push({ kind: 'category', source: words[i] });
+  return 1;
+}
+
+function readTag(words: string[], i: number, result: QuickAddResult): number {
+  if (!/^#[\p{L}\p{N}_-]+$/u.test(words[i])) return 0;
+  const tag = normalizeTag(words[i]);
+  if (!result.tags.includes(tag)) result.tags.push(tag);
+  result.parts.push({ kind: 'tag', source: words[i] });
+  return 1;
+}
+
+function readRecurrence(words: string[], i: number, today: Date, result: QuickAddResult, atEdge: EdgeCheck): number {
+  if (result.recurrence !== null) return 0;
+  const lower = words.map(w => w.toLowerCase());
+  let rule: RecurrenceRule | null = null;
+  let used = 0;
+
+  if (lower[i] === 'daily' && atEdge(1)) {
+    rule = { type: 'daily' };
+    used = 1;
+  } else if (lower[i] === 'every') {
+    const next = lower[i + 1];
+    if (next === 'day') {
+      rule = { type: 'daily' };
+      used = 2;
+    } else if (next === 'weekday' || next === 'weekdays') {
+      rule = { type: 'weekdays', weekdays: [0, 1, 2, 3, 4] };
+      used = 2;
+    } else if (next === 'month') {
+      // "every month", "every month on 15", "every month on the 15th"
+      let j = i + 2;
+      if (lower[j] === 'on') j++;
+      if (lower[j] === 'the') j++;
+      const day = /^(\d{1,2})(?:st|nd|rd|th)?$/.exec(lower[j] ?? '');
+      if (day && Number(day[1]) >= 1 && Number(day[1]) <= 31) {
+        rule = { type: 'monthly', dayOfMonth: Number(day[1]) };
+        used = j + 1 - i;
+      } else {
+        rule = { type: 'monthly', dayOfMonth: today.getDate() };
+        used = 2;
+      }
+    } else if (/^\d+$/.test(next ?? '') && /^weeks?$/.test(lower[i + 2] ?? '')) {
+      // "every 2 weeks fri", "every 2 weeks on fri"
+      let j = i + 3;
+      if (lower[j] === 'on') j++;
+      if (WEEKDAYS.has(lower[j])) {
+        const weekday = WEEKDAYS.get(lower[j])!;
+        rule = { type: 'everyNWeeks', everyWeeks: Math.max(1, Number(next)), weekday, startDate: toDateKey(nextWeekday(today, weekday)) };
+        used = j + 1 - i;
+      }
+    } else {
+      // "every mon wed", "every mon, wed and fri"
+      const weekdays: number[] = [];
+      let j = i + 1;
+      while (j < words.length) {
+        const name = lower[j].replace(/,$/, '');
+        if (WEEKDAYS.has(name)) {
+          if (!weekdays.includes(WEEKDAYS.get(name)!)) weekdays.push(WEEKDAYS.get(name)!);
+        } else if (name !== 'and' || weekdays.length === 0) {
+          break;
+        }
+        j++;
+      }
+      if (lower[j - 1] === 'and') j--;
+      if (weekdays.length > 0) {
+        rule = { type: 'weekdays', weekdays: weekdays.sort((a, b) => a - b) };
+        used = j - i;
+      }
+    }
+  }
+
+  if (!rule) return 0;
+  result.recurrence = rule;
+  result.parts.push({ kind: 'recurrence', source: words.slice(i, i + used).join(' ') });
+  return used;
+}
+
+/** `weekday` counted from Monday; today counts as the next one. */
+function nextWeekday(today: Date, weekday: number): Date {
+  return addDays(today, (weekday - mondayBasedDay(today) + 7) % 7);
+}
+
+/** `2024-03-15`, `15.03.2024`, `15.03.24` or `15.03.` (the next such date). */
+function parseDate(word: string, today: Date): Date | null {
+  let year: number;
+  let month: number;
+  let day: number;
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(word);
+  const dotted = /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})?$/.exec(word);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dotted) {
+    [day, month] = [Number(dotted[1]), Number(dotted[2])];
+    if (dotted[3]) year = dotted[3].length === 2 ? 2000 + Number(dotted[3]) : Number(dotted[3]);
+    else year = new Date(today.getFullYear(), month - 1, day) < today ? today.getFullYear() + 1 : today.getFullYear();
+  } else {
+    return null;
+  }
+  const date = new Date(year, month - 1, day);
+  // Rejects dates like 31.02.
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
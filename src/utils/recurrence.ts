@@ -0,0 +1,44 @@
+import { RecurrenceRule } from '../models/todo.model';
+import { addDays, daysBetween, mondayBasedDay, parseDateKey, startOfDay } from './date.utils';
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/** Returns true if a habit with this rule should have an instance on `date`. */
+export function occursOn(rule: RecurrenceRule, date: Date): boolean {
+  const day = startOfDay(date);
+  switch (rule.type) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return rule.weekdays.includes(mondayBasedDay(day));
+    case 'everyNWeeks': {
+      if (mondayBasedDay(day) !== rule.weekday) return false;
+      const start = parseDateKey(rule.startDate);
+      const startMonday = addDays(start, -mondayBasedDay(start));
+      const weeks = Math.floor(daysBetween(startMonday, day) / 7);
+      return weeks >= 0 && day >= start && weeks % Math.max(1, rule.everyWeeks) === 0;
+    }
+    case 'monthly': {
+      // Months that are too short (e.g. the 31st in April) fall back to their last day.
+      const lastDayOfMonth = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+      return day.getDate() === Math.min(rule.dayOfMonth, lastDayOfMonth);
+    }
+  }
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case 'daily':
+      return 'Every day';
+    case 'weekdays':
+      return rule.weekdays.length === 0
+        ? 'Never'
+        : [...rule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]).join(', ');
+    case 'everyNWeeks':
+      return rule.everyWeeks <= 1
+        ? `Every ${WEEKDAY_LABELS[rule.weekday]}`
+        : `Every ${rule.everyWeeks} weeks on ${WEEKDAY_LABELS[rule.weekday]}`;
+    case 'monthly':
+      return `Monthly on day ${rule.dayOfMonth}`;
+  }
+}
@@ -0,0 +1,58 @@
+import { Reminder, Week } from '../models/todo.model';
+import { weekKeyDates } from './date.utils';
+import { formatClock } from './timeline';
+
+/** A reminder that is due at a specific moment. */
+export interface DueReminder {
+  todoId: number;
+  text: string;
+  /** ms since epoch */
+  dueAt: number;
+}
+
+/** The choices offered when editing a task; `atTime` is added separately with a time field. */
+export const REMINDER_PRESETS: { label: string; minutes: number }[] = [
+  { label: 'At start', minutes: 0 },
+  { label: '5 min before', minutes: 5 },
+  { label: '15 min before', minutes: 15 },
+  { label: '30 min before', minutes: 30 },
+  { label: '1 hour before', minutes: 60 },
+];
+
+export function describeReminder(reminder: Reminder): string {
+  if (reminder.type === 'atTime') return formatClock(reminder.time);
+  const preset = REMINDER_PRESETS.find(p => p.minutes === reminder.minutes);
+  return preset ? preset.label.toLowerCase() : `${reminder.minutes} min before`;
+}
+
+/**
+ * Every open task with a reminder that falls between `from` and `until`, soonest first.
+ * `workStartFor` gives the start of the working day for tasks without a start time.
+ */
+export function dueReminders(
+  allWeeks: { [weekKey: string]: Week },
+  days: readonly string[],
+  from: number,
+  until: number,
+  workStartFor: (date: Date) => number,
+): DueReminder[] {
+  const result: DueReminder[] = [];
+  for (const [weekKey, week] of Object.entries(allWeeks)) {
+    const dates = weekKeyDates(weekKey);
+    // Weeks that end before `from` cannot have anything due.
+    if (!dates || dates[dates.length - 1].getTime() + 86400000 < from) continue;
+    days.forEach((day, i) => {
+      for (const tasks of Object.values(week[day] ?? {})) {
+        for (const todo of tasks) {
+          if (!todo.reminder || todo.completed) continue;
+          const minutes = todo.reminder.type === 'atTime'
+            ? todo.reminder.time
+            : (todo.startTime ?? workStartFor(dates[i])) - todo.reminder.minutes;
+          const dueAt = new Date(dates[i].getFullYear(), dates[i].getMonth(), dates[i].getDate(), 0, minutes).getTime();
+          if (dueAt >= from && dueAt < until) result.push({ todoId: todo.id, text: todo.text, dueAt });
+        }
+      }
+    });
+  }
+  return result.sort((a, b) => a.dueAt - b.dueAt);
+}
@@ -0,0 +1,71 @@
+// Fuzzy text matching for task search. Scores are relative: higher is better, null is no match.
+
+/** Lower case without accents, so "Café" is found by "cafe". */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * How well every query token matches the text's words. A token matches a word it starts
+ * (best), a word it is contained in, a word one typo away (for tokens of four letters or
+ * more), or the letters of one word in order (e.g. "txcl" in "taxcall").
+ */
+export function fuzzyScore(queryTokens: string[], words: string[]): number | null {
+  let total = 0;
+  for (const token of queryTokens) {
+    let best = 0;
+    for (const word of words) {
+      best = Math.max(best, tokenScore(token, word));
+      if (best === PREFIX) break;
+    }
+    if (best === 0) return null;
+    total += best;
+  }
+  return total;
+}
+
+const PREFIX = 4;
+const CONTAINS = 3;
+const TYPO = 2;
+const SUBSEQUENCE = 1;
+
+function tokenScore(token: string, word: string): number {
+  if (word.startsWith(token)) return PREFIX;
+  if (word.includes(token)) return CONTAINS;
+  if (token.length >= 4 && withinOneEdit(token, word)) return TYPO;
+  if (token.length >= 3 && isSubsequence(token, word)) return SUBSEQUENCE;
+  return 0;
+}
+
+/** True if `word` starts with `token` after at most one inserted, removed or changed letter. */
+function withinOneEdit(token: string, word: string): boolean {
+  for (const candidate of [word.slice(0, token.length), word.slice(0, token.length + 1), word.slice(0, token.length - 1)]) {
+    if (editDistance(token, candidate) <= 1) return true;
+  }
+  return false;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isSubsequence(token: string, word: string): boolean {
+  let i = 0;
+  for (const char of word) {
+    if (char === token[i]) i++;
+    if (i === token.length) return true;
+  }
+  return false;
+}
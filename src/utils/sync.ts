@@ -0,0 +1,66 @@
+import { Todo, Week, TaskLocation } from '../models/todo.model';
+
+// Task-level sync with a REST backend (see docs/sync-api.md). Every task in the grid or the
+// backlog is one record; the copy with the newer `updatedAt` wins.
+
+/** One task as exchanged with the server. Deleted tasks are sent as tombstones without content. */
+export interface SyncRecord {
+  id: number;
+  updatedAt: number;
+  deleted: boolean;
+  todo?: Todo;
+  location?: TaskLocation;
+}
+
+export interface PushResponse {
+  cursor: number;
+  /** The server's copy of every task it had a newer (or equally new) version of. */
+  conflicts: SyncRecord[];
+}
+
+export interface PullResponse {
+  cursor: number;
+  tasks: SyncRecord[];
+}
+
+export interface TaskEntry {
+  todo: Todo;
+  location: TaskLocation;
+}
+
+/** Every task in the grid and the backlog by ID. */
+export function indexTasks(allWeeks: { [weekKey: string]: Week }, todoPool: Todo[], days: readonly string[]): Map<number, TaskEntry> {
+  const index = new Map<number, TaskEntry>();
+  for (const [weekKey, week] of Object.entries(allWeeks)) {
+    for (const day of days) {
+      for (const [category, tasks] of Object.entries(week[day] ?? {})) {
+        for (const todo of tasks) index.set(todo.id, { todo, location: { type: 'week', weekKey, day, category } });
+      }
+    }
+  }
+  for (const todo of todoPool) index.set(todo.id, { todo, location: { type: 'pool' } });
+  return index;
+}
+
+/** Content and position of a task, leaving out the timestamp itself. */
+export function taskFingerprint(entry: TaskEntry): string {
+  return JSON.stringify({ ...entry.todo, updatedAt: undefined, location: entry.location });
+}
+
+/** Tasks that were added, edited or moved between two indexes, and tasks that disappeared. */
+export function diffTaskIndexes(previous: Map<number, TaskEntry>, next: Map<number, TaskEntry>): { changed: TaskEntry[]; removed: number[] } {
+  const changed = [...next.values()].filter(entry => {
+    const before = previous.get(entry.todo.id);
+    return !before || taskFingerprint(before) !== taskFingerprint(entry);
+  });
+  const removed = [...previous.keys()].filter(id => !next.has(id));
+  return { changed, removed };
+}
+
+export function toSyncRecord(entry: TaskEntry, now = Date.now()): SyncRecord {
+  return { id: entry.todo.id, updatedAt: entry.todo.updatedAt ?? now, deleted: false, todo: entry.todo, location: entry.location };
+}
+
+export function tombstone(id: number, now = Date.now()): SyncRecord {
+  return { id, updatedAt: now, deleted: true };
+}
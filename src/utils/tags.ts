@@ -0,0 +1,38 @@
+import { Todo } from '../models/todo.model';
+import { normalizeTag } from './quick-add';
+
+/** Narrows the backlog and dims the grid. A task matches if it has the project and every tag. */
+export interface TaskFilter {
+  tags: string[];
+  project: string | null;
+}
+
+export const EMPTY_FILTER: TaskFilter = { tags: [], project: null };
+
+const CHIP_COLORS = ['#f472b6', '#fb923c', '#facc15', '#4ade80', '#2dd4bf', '#38bdf8', '#818cf8', '#c084fc', '#f87171', '#a3e635'];
+
+/** A stable colour per tag or project name, so a chip looks the same everywhere. */
+export function chipColor(name: string): string {
+  let hash = 0;
+  for (const char of name.toLowerCase()) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return CHIP_COLORS[Math.abs(hash) % CHIP_COLORS.length];
+}
+
+/** Reads tags typed as "#a #b", "a, b" or a mix, without duplicates. */
+export function parseTagList(text: string): string[] {
+  const tags = text.split(/[\s,]+/).map(normalizeTag).filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export function formatTagList(tags: string[] | undefined): string {
+  return (tags ?? []).map(tag => `#${tag}`).join(' ');
+}
+
+export function matchesFilter(todo: Todo, filter: TaskFilter): boolean {
+  if (filter.project !== null && (todo.project ?? '') !== filter.project) return false;
+  return filter.tags.every(tag => todo.tags?.includes(tag));
+}
+
+export function isFilterActive(filter: TaskFilter): boolean {
+  return filter.project !== null || filter.tags.length > 0;
+}
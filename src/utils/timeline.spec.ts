@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Todo } from '../models/todo.model';
+import { todo } from '../testing/fixtures';
+import { layoutTimeline, packDay, snapMinutes } from './timeline';
+
+const at = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+function layout(tasks: Todo[]) {
+  return layoutTimeline(tasks.map(t => ({ todo: t, category: 'focus' })))
+    .map(({ todo, start, end, lane, lanes, overlaps }) => ({ id: todo.id, start, end, lane, lanes, overlaps }));
+}
+
+describe('snapMinutes', () => {
+  it('rounds to the nearest step', () => {
+    expect(snapMinutes(at(9, 7))).toBe(at(9));
+    expect(snapMinutes(at(9, 8))).toBe(at(9, 15));
+    expect(snapMinutes(at(9, 7), 5)).toBe(at(9, 5));
+  });
+});
+
+describe('layoutTimeline', () => {
+  it('puts overlapping tasks side by side and flags them', () => {
+    expect(layout([
+      todo(1, { startTime: at(9), duration: 60 }),
+      todo(2, { startTime: at(9, 30), duration: 30 }),
+      todo(3, { startTime: at(10), duration: 30 }),
+      todo(4),
+    ])).toEqual([
+      { id: 1, start: at(9), end: at(10), lane: 0, lanes: 2, overlaps: true },
+      { id: 2, start: at(9, 30), end: at(10), lane: 1, lanes: 2, overlaps: true },
+      // Starts as the others end: no overlap.
+      { id: 3, start: at(10), end: at(10, 30), lane: 0, lanes: 1, overlaps: false },
+    ]);
+  });
+
+  it('reuses a lane once it is free within the same group', () => {
+    const blocks = layout([
+      todo(1, { startTime: at(9), duration: 120 }),
+      todo(2, { startTime: at(9, 30), duration: 30 }),
+      todo(3, { startTime: at(10), duration: 30 }),
+    ]);
+    expect(blocks.map(b => b.lane)).toEqual([0, 1, 1]);
+    expect(blocks.every(b => b.lanes === 2 && b.overlaps)).toBe(true);
+  });
+
+  it('gives tasks without a duration one step', () => {
+    expect(layout([todo(1, { startTime: at(9), duration: 0 })])[0].end).toBe(at(9, 15));
+  });
+});
+
+describe('packDay', () => {
+  it('fills the gaps around busy blocks in the given order', () => {
+    const result = packDay([
+      todo(1, { startTime: at(9), duration: 60 }),
+      todo(2, { duration: 60 }),
+      todo(3, { duration: 30 }),
+      todo(4, { completed: true }),
+    ], { dayStart: at(8), dayEnd: at(18) });
+    expect(result).toEqual({ placed: [{ id: 2, startTime: at(8) }, { id: 3, startTime: at(10) }], unplaced: [] });
+  });
+
+  it('starts after a busy block on the next step', () => {
+    const result = packDay([todo(1, { startTime: at(8), duration: 20 }), todo(2)], { dayStart: at(8) });
+    expect(result.placed).toEqual([{ id: 2, startTime: at(8, 30) }]);
+  });
+
+  it('packs nothing before notBefore, rounded up to a step', () => {
+    const result = packDay([todo(1)], { dayStart: at(8), notBefore: at(13, 7) });
+    expect(result.placed).toEqual([{ id: 1, startTime: at(13, 15) }]);
+  });
+
+  it('leaves out tasks that would end after dayEnd', () => {
+    const result = packDay([todo(1, { duration: 90 }), todo(2, { duration: 60 })], { dayStart: at(8), dayEnd: at(10), notBefore: at(8, 45) });
+    expect(result).toEqual({ placed: [{ id: 2, startTime: at(8, 45) }], unplaced: [1] });
+  });
+});
@@ -0,0 +1,119 @@
+import { Todo, CategoryKey, taskDuration } from '../models/todo.model';
+
+// Layout and sequencing helpers for the per-day timeline. Times are minutes since midnight.
+
+export const TIMELINE_START = 6 * 60;
+export const TIMELINE_END = 22 * 60;
+export const SNAP_MINUTES = 15;
+/** Height of one hour on the timeline; the week grid's hour legend uses the same value. */
+export const HOUR_HEIGHT_REM = 4;
+
+export interface TimelineBlock {
+  todo: Todo;
+  category: CategoryKey;
+  start: number;
+  end: number;
+  /** Column within a group of overlapping tasks, and how many columns that group needs. */
+  lane: number;
+  lanes: number;
+  overlaps: boolean;
+}
+
+export interface PackOptions {
+  dayStart?: number;
+  dayEnd?: number;
+  step?: number;
+  /** Nothing is packed before this time, e.g. the current time for today. */
+  notBefore?: number;
+}
+
+export interface PackResult {
+  placed: { id: number; startTime: number }[];
+  /** Tasks that did not fit into any gap. */
+  unplaced: number[];
+}
+
+export function snapMinutes(minutes: number, step = SNAP_MINUTES): number {
+  return Math.round(minutes / step) * step;
+}
+
+export function formatClock(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/** A task occupies at least one snap step, so zero-minute tasks stay visible and clickable. */
+export function blockLength(todo: Todo): number {
+  return Math.max(taskDuration(todo), SNAP_MINUTES);
+}
+
+/**
+ * Positions the timed tasks of a day. Tasks that overlap are grouped and spread
+ * over side-by-side lanes, and flagged so the overlap can be pointed out.
+ */
+export function layoutTimeline(items: { todo: Todo; category: CategoryKey }[]): TimelineBlock[] {
+  const blocks: TimelineBlock[] = items
+    .filter(item => item.todo.startTime != null)
+    .map(item => ({ ...item, start: item.todo.startTime!, end: item.todo.startTime! + blockLength(item.todo), lane: 0, lanes: 1, overlaps: false }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let group: TimelineBlock[] = [];
+  let groupEnd = -1;
+  const closeGroup = () => {
+    const lanes = Math.max(1, ...group.map(b => b.lane + 1));
+    for (const block of group) {
+      block.lanes = lanes;
+      block.overlaps = group.length > 1;
+    }
+    group = [];
+  };
+
+  for (const block of blocks) {
+    if (block.start >= groupEnd) closeGroup();
+    const laneEnds = new Map<number, number>();
+    for (const other of group) laneEnds.set(other.lane, Math.max(laneEnds.get(other.lane) ?? -1, other.end));
+    let lane = 0;
+    while ((laneEnds.get(lane) ?? -1) > block.start) lane++;
+    block.lane = lane;
+    group.push(block);
+    groupEnd = Math.max(groupEnd, block.end);
+  }
+  closeGroup();
+  return blocks;
+}
+
+/**
+ * Sequences the open tasks without a start time into the free gaps of a day, in the
+ * order given. Completed tasks and tasks that already have a time are left where they are.
+ */
+export function packDay(tasks: Todo[], options: PackOptions = {}): PackResult {
+  const dayStart = options.dayStart ?? TIMELINE_START;
+  const dayEnd = options.dayEnd ?? TIMELINE_END;
+  const step = options.step ?? SNAP_MINUTES;
+  const earliest = Math.ceil(Math.max(dayStart, options.notBefore ?? dayStart) / step) * step;
+
+  const busy = tasks
+    .filter(t => t.startTime != null)
+    .map(t => ({ start: t.startTime!, end: t.startTime! + blockLength(t) }))
+    .sort((a, b) => a.start - b.start);
+
+  const result: PackResult = { placed: [], unplaced: [] };
+  for (const task of tasks) {
+    if (task.startTime != null || task.completed) continue;
+    const length = blockLength(task);
+    let candidate = earliest;
+    for (const interval of busy) {
+      if (candidate + length <= interval.start) break;
+      if (interval.end > candidate) candidate = Math.ceil(interval.end / step) * step;
+    }
+    if (candidate + length > dayEnd) {
+      result.unplaced.push(task.id);
+      continue;
+    }
+    result.placed.push({ id: task.id, startTime: candidate });
+    busy.push({ start: candidate, end: candidate + length });
+    busy.sort((a, b) => a.start - b.start);
+  }
+  return result;
+}
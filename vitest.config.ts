@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Date code is tested in a time zone with daylight saving time, so DST switches are covered.
+process.env.TZ = 'Europe/Berlin';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.spec.ts'],
+    environment: 'jsdom',
+    setupFiles: ['src/test-setup.ts'],
+  },
+});